@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import {
   Biohazard,
   Skull,
@@ -7,195 +7,1076 @@ import {
   Download,
   Share2,
   AlertCircle,
-  Shield,
   Users,
   Trophy,
   Radio,
+  Pencil,
+  Plus,
+  CheckSquare,
+  FileDown,
+  FileUp,
+  Settings2,
 } from "lucide-react";
 
-import { generateZombieCar } from "./services/geminiService";
+import { generateZombieCar } from "./services/imageProvider";
+import { mockProvider } from "./services/mockProvider";
 import { ImageUploader } from "./components/ImageUploader";
 import { Button } from "./components/Button";
 import { DriveMode } from "./components/DriveMode";
-import { GenerationMode, LoadingState } from "./types";
+import { VariantGrid } from "./components/VariantGrid";
+import { RefinePanel } from "./components/RefinePanel";
+import { GenerationStatus } from "./components/GenerationStatus";
+import { ModeIcon } from "./components/ModeIcon";
+import { ModeEditor } from "./components/ModeEditor";
+import { GarageFullDialog } from "./components/GarageFullDialog";
+import { GarageCard, GarageEntry, rideTitle } from "./components/GarageCard";
+import { GarageToolbar } from "./components/GarageToolbar";
+import { GarageImportDialog } from "./components/GarageImportDialog";
+import { DownloadOptions } from "./components/DownloadOptions";
+import { CompareView, CompareMode } from "./components/CompareView";
+import { GarageBulkBar } from "./components/GarageBulkBar";
+import { RecentlyDeleted } from "./components/RecentlyDeleted";
+import { UndoToast } from "./components/UndoToast";
+import { SurvivorCard } from "./components/SurvivorCard";
+import {
+  allModes,
+  emptyCustomMode,
+  loadCustomModes,
+  saveCustomModes,
+} from "./services/customModes";
+import {
+  BUILT_IN_MODES,
+  DEFAULT_MODE_ID,
+  findMode,
+  modeLabel,
+  normalizeModeId,
+} from "./services/modeRegistry";
+import { isAbortError } from "./services/abort";
+import {
+  blobToDataUrl,
+  dataUrlToBlob,
+  downloadBlob,
+  extensionForMimeType,
+} from "./services/blobs";
+import {
+  deleteRides,
+  formatBytes,
+  GarageFullError,
+  getRideImage,
+  getStorageReport,
+  listRides,
+  migrateLegacyGarage,
+  putRide,
+  putRides,
+  StorageReport,
+  updateRides,
+} from "./services/garageStore";
+import {
+  expiredBinRides,
+  isInBin,
+  moveToBin,
+  restoreFromBin,
+} from "./services/garageBin";
+import {
+  ArchiveError,
+  ClashPolicy,
+  countClashes,
+  exportGarageArchive,
+  ParsedArchive,
+  planImport,
+  readGarageArchive,
+} from "./services/garageArchive";
+import { createZip } from "./services/zip";
+import { slugify } from "./services/slug";
+import {
+  defaultWatermark,
+  DownloadSettings,
+  exportImage,
+  loadDownloadSettings,
+  saveDownloadSettings,
+} from "./services/imageExport";
+import { APP_NAME, APP_VERSION } from "./services/appInfo";
+import { exportReveal, RevealFormat } from "./services/revealExport";
+import {
+  CARD_FORMATS,
+  CardFormat,
+  garageTitle,
+  renderRideCard,
+  RideCardInfo,
+} from "./services/rideCard";
+import { createThumbnail } from "./services/imagePreprocess";
+import { deriveRideStats, rideLoadout } from "./services/rideStats";
+import {
+  allTags,
+  applyGarageFilters,
+  GarageFilters,
+  loadGarageFilters,
+  normalizeTag,
+  saveGarageFilters,
+} from "./services/garageFilters";
+import { commanderSlug } from "./services/commander";
+import {
+  loadProfile,
+  recordDriveRun,
+  recordRefinement,
+  recordRideBuilt,
+  saveProfile,
+  updateIdentity,
+} from "./services/survivorProfile";
+import {
+  classifyError,
+  GenerationErrorKind,
+} from "./services/generationErrors";
+import {
+  applyGenerationEvent,
+  IDLE,
+  isBusy,
+  transition,
+} from "./services/generationLifecycle";
+import {
+  currentStep,
+  EMPTY_HISTORY,
+  jumpTo,
+  pushRefinement,
+  redo,
+  startHistory,
+  undo,
+} from "./services/refinementHistory";
+import {
+  CommanderProfile,
+  DriveRunResult,
+  GeneratedImageResult,
+  GenerationEvent,
+  GenerationVariant,
+  LoadingState,
+  ModeId,
+  MutationMode,
+  RefinementHistory,
+  RenderInfo,
+  RideLoadout,
+  RideStats,
+  SurvivorProfile,
+  ZombieRide,
+} from "./types";
+
+type PendingSave = { ride: ZombieRide; image: Blob };
+
+type UndoDelete = { id: string; ids: string[]; message: string };
+
+type PendingImport = { fileName: string; archive: ParsedArchive };
+
+type ShareFormat = "original" | CardFormat;
+
+const toRecord = ({ imageUrl, ...ride }: GarageEntry): ZombieRide => ride;
 
-type ZombieRide = {
-  id: string;
-  image: string;
-  mode: GenerationMode;
-  createdAt: string;
+// yyyy-mm-dd for filenames.
+const today = () => new Date().toISOString().slice(0, 10);
+
+type VariantRequest = {
+  sourceImage: string;
+  mode: MutationMode;
+  customDetails: string;
 };
 
-const SurvivorCard = () => (
-  <div className="bg-gradient-to-br from-zinc-900 to-black border-2 border-zinc-800 p-4 rounded-xl relative overflow-hidden group shadow-lg shadow-lime-900/10">
-    <div className="absolute top-0 right-0 p-2 opacity-10 group-hover:opacity-30 transition-opacity">
-      <Shield className="w-32 h-32 text-lime-500 rotate-12" />
-    </div>
-    <div className="relative z-10">
-      <div className="flex items-center justify-between mb-4 border-b border-zinc-800 pb-2">
-        <span className="text-[10px] text-zinc-500 font-mono tracking-widest">
-          ID: ZMB-HUNTER-01
-        </span>
-        <div className="flex gap-1">
-          <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></div>
-          <span className="text-[10px] text-red-500 font-bold">
-            ACTIVE DUTY
-          </span>
-        </div>
-      </div>
+const VARIANT_OPTIONS = [1, 2, 3, 4];
 
-      <div className="flex items-center gap-4">
-        <div className="w-20 h-20 rounded-lg bg-zinc-800 border-2 border-lime-600 flex items-center justify-center shrink-0 shadow-[0_0_15px_rgba(101,163,13,0.3)]">
-          <span className="font-zombie text-4xl text-lime-500">M</span>
-        </div>
-        <div>
-          <h3 className="text-lime-500 font-bold text-xs tracking-widest uppercase mb-1">
-            Squad Leader
-          </h3>
-          <p className="text-2xl font-black text-white leading-none tracking-tight font-zombie">
-            COMMANDER MASON
-          </p>
-          <div className="flex flex-wrap gap-2 mt-2">
-            <span className="text-[10px] bg-lime-900/40 px-2 py-0.5 rounded text-lime-400 border border-lime-800">
-              LVL 99
-            </span>
-            <span className="text-[10px] bg-zinc-800 px-2 py-0.5 rounded text-zinc-400 border border-zinc-700">
-              BASE: BUNKER ALPHA
-            </span>
-          </div>
-        </div>
-      </div>
-    </div>
-  </div>
-);
+type RecoveryAction = "retry" | "clear_details" | "change_photo" | "use_mock";
+
+type Failure = {
+  message: string;
+  action?: RecoveryAction;
+  actionLabel?: string;
+};
+
+const FAILURE_COPY: Record<GenerationErrorKind, Required<Failure>> = {
+  rate_limit: {
+    message:
+      "The horde is jamming our radio – too many requests at once. Give it a minute, then try again.",
+    action: "retry",
+    actionLabel: "Try again",
+  },
+  safety_block: {
+    message:
+      "The garage AI refused this build. Tone down the gore in the Special Requests and have another go.",
+    action: "clear_details",
+    actionLabel: "Clear special requests",
+  },
+  no_image: {
+    message:
+      "The welding crew came back empty-handed. That happens sometimes – just run it again.",
+    action: "retry",
+    actionLabel: "Try again",
+  },
+  input_too_large: {
+    message:
+      "That photo is too heavy for the garage lift. Pick a smaller or lower-resolution picture.",
+    action: "change_photo",
+    actionLabel: "Choose another photo",
+  },
+  network: {
+    message:
+      "Lost radio contact with the garage. Check your connection and try again.",
+    action: "retry",
+    actionLabel: "Try again",
+  },
+  bad_key: {
+    message:
+      "The garage's access codes are wrong. Ask a grown-up to check GEMINI_API_KEY on the server – or practise with the offline garage.",
+    action: "use_mock",
+    actionLabel: "Use offline garage",
+  },
+  unknown: {
+    message: "Garage malfunction. Try again in a moment.",
+    action: "retry",
+    actionLabel: "Try again",
+  },
+};
+
+const SAVE_FAILED: Failure = {
+  message: "The garage door jammed – this ride wasn't saved.",
+};
+
+const describeFailure = (err: unknown): Failure =>
+  FAILURE_COPY[classifyError(err).kind];
+
+const toRenderInfo = (
+  result: GeneratedImageResult,
+  request: Omit<VariantRequest, "sourceImage"> & { sourceImage: string | null }
+): RenderInfo => ({
+  provider: result.provider,
+  model: result.model,
+  promptUsed: result.promptUsed,
+  modeId: request.mode.id,
+  customDetails: request.customDetails,
+  sourceImage: request.sourceImage,
+  attributes: result.attributes,
+});
+
+// Loading a ride rebuilds what we know about how it was made.
+const rideRenderInfo = (ride: ZombieRide): RenderInfo => ({
+  provider: ride.provider,
+  model: ride.model,
+  promptUsed: ride.prompt,
+  modeId: ride.mode,
+  customDetails: ride.customDetails,
+  sourceImage: ride.sourceThumbnail,
+  attributes: ride.attributes,
+});
 
 const App: React.FC = () => {
+  const [profile, setProfile] = useState<SurvivorProfile>(loadProfile);
+  const { commander } = profile;
+  useEffect(() => saveProfile(profile), [profile]);
+  // The header shows the title's last word in the accent colour.
+  const headerTitle = garageTitle(commander.name);
+  const headerSplit = headerTitle.lastIndexOf(" ");
   const [sourceImage, setSourceImage] = useState<string | null>(null);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [loading, setLoading] = useState<LoadingState>({
-    isLoading: false,
-    message: "",
-  });
-  const [mode, setMode] = useState<GenerationMode>(GenerationMode.SURVIVAL);
+  // A loaded ride only keeps a small thumbnail of its photo: shown for
+  // reference, but too low-res to build from until the photo is re-uploaded.
+  const [sourcePreview, setSourcePreview] = useState<string | null>(null);
+  // The main image is the current step of the refinement history; any fresh
+  // render (generate, pick, load) starts a new history.
+  const [history, setHistory] = useState<RefinementHistory>(EMPTY_HISTORY);
+  const generatedImage = currentStep(history)?.imageUrl ?? null;
+  // The photo the current history started from, for before/after views.
+  const beforeImage = history.steps[0]?.render?.sourceImage ?? sourceImage;
+  const [compareMode, setCompareMode] = useState<CompareMode>("slider");
+  const [revealExporting, setRevealExporting] = useState<RevealFormat | null>(
+    null
+  );
+  // Garage ride the current history was loaded from, or that its first
+  // render was saved as; refinements saved from it record it as their parent.
+  const [historyRideId, setHistoryRideId] = useState<string | null>(null);
+  const setGeneratedImage = (
+    imageUrl: string | null,
+    render?: RenderInfo,
+    rideId: string | null = null
+  ) => {
+    setHistory(imageUrl ? startHistory(imageUrl, render) : EMPTY_HISTORY);
+    setHistoryRideId(rideId);
+  };
+  const [isRefining, setIsRefining] = useState(false);
+  const [loading, setLoading] = useState<LoadingState>(IDLE);
+  // Controller for the single generate / refine request in flight.
+  const abortRef = useRef<AbortController | null>(null);
+  // Mutation modes: built-ins from the registry plus the user's own.
+  const [customModes, setCustomModes] =
+    useState<MutationMode[]>(loadCustomModes);
+  const modes = allModes(customModes);
+  const [modeId, setModeId] = useState<ModeId>(DEFAULT_MODE_ID);
+  const mode = findMode(modes, modeId) ?? BUILT_IN_MODES[0];
+  const [editingMode, setEditingMode] = useState<{
+    mode: MutationMode;
+    isNew: boolean;
+  } | null>(null);
   const [customPrompt, setCustomPrompt] = useState<string>("");
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Failure | null>(null);
+  // Re-runs whatever failed last, for the "Try again" recovery action.
+  const lastActionRef = useRef<(() => void) | null>(null);
+  // Set by "Use offline garage"; read at call time so a re-run picks it up.
+  const providerRef = useRef<string | undefined>(undefined);
+
+  // Multi-variant generation
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [variants, setVariants] = useState<GenerationVariant[]>([]);
+  const variantRequestRef = useRef<VariantRequest | null>(null);
+  const variantControllersRef = useRef(new Map<string, AbortController>());
+  const pendingVariants = variants.filter((v) => v.status === "pending").length;
+  const busy = isBusy(loading) || pendingVariants > 0;
 
   // Drive Mode state
   const [driveRide, setDriveRide] = useState<{
+    rideId: string;
     rideName: string;
     imageUrl: string;
+    stats: RideStats;
+    loadout: RideLoadout;
   } | null>(null);
 
   // Garage
-  const [garage, setGarage] = useState<ZombieRide[]>([]);
+  const [garage, setGarage] = useState<GarageEntry[]>([]);
+  const [garageFilters, setGarageFilters] =
+    useState<GarageFilters>(loadGarageFilters);
+  const liveRides = garage.filter((r) => !isInBin(r));
+  const binnedRides = garage.filter(isInBin);
+  const visibleRides: GarageEntry[] = applyGarageFilters(
+    liveRides,
+    garageFilters,
+    modes
+  );
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [undoDelete, setUndoDelete] = useState<UndoDelete | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(
+    null
+  );
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [shareFormat, setShareFormat] = useState<ShareFormat>("original");
+  const [downloadSettings, setDownloadSettings] = useState<DownloadSettings>(
+    loadDownloadSettings
+  );
+  const [showDownloadOptions, setShowDownloadOptions] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [storage, setStorage] = useState<StorageReport | null>(null);
+  // A ride that didn't fit, waiting for the user to pick what to evict.
+  const [pendingSave, setPendingSave] = useState<PendingSave | null>(null);
+  const garageUrlsRef = useRef(new Set<string>());
+
+  const refreshStorage = () => getStorageReport().then(setStorage);
+
+  const toEntry = (ride: ZombieRide, image: Blob): GarageEntry => {
+    const imageUrl = URL.createObjectURL(image);
+    garageUrlsRef.current.add(imageUrl);
+    return { ...ride, imageUrl };
+  };
+
+  const releaseEntries = (entries: GarageEntry[]) =>
+    entries.forEach((entry) => {
+      URL.revokeObjectURL(entry.imageUrl);
+      garageUrlsRef.current.delete(entry.imageUrl);
+    });
 
   useEffect(() => {
+    let cancelled = false;
+    const urls = garageUrlsRef.current;
+
+    const load = async () => {
+      try {
+        await migrateLegacyGarage();
+      } catch (e) {
+        console.warn("Could not migrate the v1 garage", e);
+      }
+      const stored = await listRides();
+      const expired = expiredBinRides(stored).map((r) => r.id);
+      if (expired.length > 0) await deleteRides(expired);
+      const rides = stored.filter((r) => !expired.includes(r.id));
+      const entries: GarageEntry[] = [];
+      for (const ride of rides) {
+        const image = await getRideImage(ride.id);
+        if (cancelled) return;
+        if (image) entries.push(toEntry(ride, image));
+      }
+      setGarage(entries);
+      refreshStorage();
+    };
+
+    load().catch((e) => console.warn("Could not load the garage", e));
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, []);
+
+  const storeRide = async ({ ride, image }: PendingSave) => {
     try {
-      const saved = localStorage.getItem("mason_zombie_garage_v1");
-      if (saved) {
-        const parsed: ZombieRide[] = JSON.parse(saved);
-        setGarage(parsed);
+      await putRide(ride, image);
+      setGarage((prev) => [toEntry(ride, image), ...prev]);
+      setPendingSave(null);
+    } catch (err) {
+      if (err instanceof GarageFullError) {
+        setPendingSave({ ride, image });
+      } else {
+        console.warn("Could not save the ride", err);
+        setError(SAVE_FAILED);
       }
-    } catch (e) {
-      console.warn("Could not load Mason's garage from localStorage", e);
+    } finally {
+      refreshStorage();
     }
-  }, []);
+  };
 
-  const saveGarage = (rides: ZombieRide[]) => {
-    setGarage(rides);
+  // Never rejects: failures end up in the error banner, so callers can
+  // fire and forget.
+  const saveRideToGarage = async (
+    imageUrl: string,
+    render: RenderInfo | undefined,
+    parentId: string | null,
+    id: string = crypto.randomUUID()
+  ) => {
+    let image: Blob;
     try {
-      localStorage.setItem("mason_zombie_garage_v1", JSON.stringify(rides));
-    } catch (e) {
-      console.warn("Could not save Mason's garage", e);
+      image = await dataUrlToBlob(imageUrl);
+    } catch (err) {
+      console.warn("Could not read the ride's image", err);
+      setError(SAVE_FAILED);
+      return;
+    }
+    let sourceThumbnail: string | null = null;
+    if (render?.sourceImage) {
+      try {
+        sourceThumbnail = await createThumbnail(render.sourceImage);
+      } catch (e) {
+        console.warn("Could not thumbnail the source photo", e);
+      }
     }
+    const rideMode = render?.modeId ?? mode.id;
+    const attributes = render?.attributes ?? null;
+    const ride: ZombieRide = {
+      id,
+      name: "",
+      mode: rideMode,
+      prompt: render?.promptUsed ?? "",
+      customDetails: render?.customDetails ?? "",
+      sourceThumbnail,
+      provider: render?.provider ?? "unknown",
+      model: render?.model ?? "unknown",
+      createdAt: new Date().toISOString(),
+      parentId,
+      tags: [],
+      favourite: false,
+      bestDriveScore: 0,
+      deletedAt: null,
+      imageBytes: image.size,
+      attributes,
+      stats: deriveRideStats(rideMode, attributes),
+    };
+    await storeRide({ ride, image });
   };
 
   const handleSaveToGarage = () => {
-    if (!generatedImage) return;
+    const step = currentStep(history);
+    if (!step) return;
+    if (step.instruction !== null) {
+      saveRideToGarage(step.imageUrl, step.render, historyRideId);
+      return;
+    }
+    // The first render becomes the ride later refinements branch from.
+    const id = crypto.randomUUID();
+    setHistoryRideId(id);
+    saveRideToGarage(step.imageUrl, step.render, null, id);
+  };
 
-    const ride: ZombieRide = {
+  // Deletes for good, images included.
+  const removeRides = async (ids: string[]) => {
+    await deleteRides(ids);
+    releaseEntries(garage.filter((r) => ids.includes(r.id)));
+    setGarage((prev) => prev.filter((r) => !ids.includes(r.id)));
+    setSelectedIds((prev) => new Set([...prev].filter((id) => !ids.includes(id))));
+    refreshStorage();
+  };
+
+  const patchRides = async (
+    ids: string[],
+    patch: (ride: GarageEntry) => GarageEntry
+  ) => {
+    const updated = garage.filter((r) => ids.includes(r.id)).map(patch);
+    await updateRides(updated.map(toRecord));
+    const byId = new Map(updated.map((r) => [r.id, r]));
+    setGarage((prev) => prev.map((r) => byId.get(r.id) ?? r));
+  };
+
+  const handleDeleteRides = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const now = new Date();
+    try {
+      await patchRides(ids, (ride) => moveToBin(ride, now));
+    } catch (e) {
+      console.warn("Could not delete rides", e);
+      return;
+    }
+    setSelectedIds(new Set());
+    setUndoDelete({
       id: crypto.randomUUID(),
-      image: generatedImage,
-      mode,
-      createdAt: new Date().toLocaleString(),
-    };
+      ids,
+      message:
+        ids.length === 1
+          ? "Ride moved to recently deleted."
+          : `${ids.length} rides moved to recently deleted.`,
+    });
+    // Anything past its time in the bin goes now.
+    const expired = expiredBinRides(garage).map((r) => r.id);
+    if (expired.length > 0) {
+      removeRides(expired).catch((e) =>
+        console.warn("Could not empty the bin", e)
+      );
+    }
+  };
+
+  const handleRestoreRides = (ids: string[]) => {
+    setUndoDelete(null);
+    patchRides(ids, restoreFromBin).catch((e) =>
+      console.warn("Could not restore rides", e)
+    );
+  };
+
+  const handleDeleteForever = (ids: string[]) => {
+    removeRides(ids).catch((e) => console.warn("Could not delete rides", e));
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const exitSelectMode = () => {
+    setSelecting(false);
+    setSelectedIds(new Set());
+  };
 
-    const updated = [ride, ...garage];
-    saveGarage(updated);
+  const handleBulkTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (!tag) return;
+    patchRides([...selectedIds], (ride) =>
+      ride.tags.includes(tag) ? ride : { ...ride, tags: [...ride.tags, tag] }
+    ).catch((e) => console.warn("Could not tag rides", e));
   };
 
-  const handleDeleteRide = (id: string) => {
-    const updated = garage.filter((r) => r.id !== id);
-    saveGarage(updated);
+  // Rides with their image blobs, in garage order.
+  const withImages = async (rides: GarageEntry[]) => {
+    const result: Array<{ ride: GarageEntry; image: Blob }> = [];
+    for (const ride of rides) {
+      const image = await getRideImage(ride.id);
+      if (image) result.push({ ride, image });
+    }
+    return result;
   };
 
-  const handleLoadRide = (id: string) => {
+  const selectedRides = () => liveRides.filter((r) => selectedIds.has(r.id));
+
+  const exportRides = async (rides: GarageEntry[]) => {
+    setBulkBusy(true);
+    try {
+      const entries = await withImages(rides);
+      const archive = await exportGarageArchive(
+        entries.map(({ ride, image }) => ({ ride: toRecord(ride), image }))
+      );
+      downloadBlob(
+        archive,
+        `${commanderSlug(commander)}-garage-${today()}.zip`
+      );
+    } catch (e) {
+      console.warn("Could not export rides", e);
+      setError({ message: "The export jammed. Try fewer rides at once." });
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleBulkExport = () => exportRides(selectedRides());
+
+  const handleImportFile = async (file: File) => {
+    setImportNotice(null);
+    try {
+      setPendingImport({
+        fileName: file.name,
+        archive: await readGarageArchive(file),
+      });
+    } catch (e) {
+      if (e instanceof ArchiveError) {
+        setError({ message: e.message });
+      } else {
+        console.warn("Could not read the archive", e);
+        setError({ message: "That file couldn't be read." });
+      }
+    }
+  };
+
+  const handleImport = async (policy: ClashPolicy) => {
+    if (!pendingImport) return;
+    const plan = planImport(
+      pendingImport.archive.rides,
+      new Set(garage.map((r) => r.id)),
+      policy
+    );
+    setBulkBusy(true);
+    try {
+      await putRides(plan.records);
+    } catch (err) {
+      if (err instanceof GarageFullError) {
+        setError({
+          message:
+            "There isn't room in the garage for these rides. Clear some space or import fewer.",
+        });
+      } else {
+        console.warn("Could not import rides", err);
+        setError({ message: "The import jammed – nothing was added." });
+      }
+      return;
+    } finally {
+      setBulkBusy(false);
+      refreshStorage();
+    }
+
+    const incoming = plan.records.map(({ ride, image }) =>
+      toEntry(ride, image)
+    );
+    const incomingIds = new Set(incoming.map((r) => r.id));
+    releaseEntries(garage.filter((r) => incomingIds.has(r.id)));
+    setGarage((prev) => [
+      ...incoming,
+      ...prev.filter((r) => !incomingIds.has(r.id)),
+    ]);
+    setPendingImport(null);
+    setImportNotice(
+      `Imported ${plan.records.length} ${
+        plan.records.length === 1 ? "ride" : "rides"
+      }` +
+        (plan.replacedIds.length > 0
+          ? `, replacing ${plan.replacedIds.length}`
+          : "") +
+        (plan.skipped > 0 ? `, skipped ${plan.skipped}` : "") +
+        "."
+    );
+  };
+
+  const handleBulkZip = async () => {
+    setBulkBusy(true);
+    try {
+      const entries = await withImages(selectedRides());
+      const used = new Set<string>();
+      const files = entries.map(({ ride, image }) => {
+        const base = slugify(rideTitle(ride, modeLabel(modes, ride.mode)), "ride");
+        let name = `${base}.${extensionForMimeType(image.type)}`;
+        for (let n = 2; used.has(name); n++) {
+          name = `${base}-${n}.${extensionForMimeType(image.type)}`;
+        }
+        used.add(name);
+        return { name, data: image, modified: new Date(ride.createdAt) };
+      });
+      const zip = await createZip(files);
+      downloadBlob(zip, `${commanderSlug(commander)}-rides-${today()}.zip`);
+    } catch (e) {
+      console.warn("Could not zip rides", e);
+      setError({ message: "The zip jammed. Try fewer rides at once." });
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleEvictAndSave = async (ids: string[]) => {
+    if (!pendingSave) return;
+    try {
+      await removeRides(ids);
+    } catch (e) {
+      console.warn("Could not scrap rides", e);
+    }
+    await storeRide(pendingSave);
+  };
+
+  const handleLoadRide = async (id: string) => {
     const ride = garage.find((r) => r.id === id);
     if (!ride) return;
-    setGeneratedImage(ride.image);
-    setMode(ride.mode);
+    // Providers take data URLs, so refining a loaded ride still works.
+    let imageUrl: string;
+    try {
+      const image = await getRideImage(id);
+      if (!image) throw new Error(`No image stored for ride ${id}`);
+      imageUrl = await blobToDataUrl(image);
+    } catch (e) {
+      console.warn("Could not load the ride", e);
+      setError({ message: "The garage door jammed – that ride couldn't be loaded." });
+      return;
+    }
+    setGeneratedImage(imageUrl, rideRenderInfo(ride), id);
+    setModeId(normalizeModeId(ride.mode));
+    setCustomPrompt(ride.customDetails);
+    setSourceImage(null);
+    setSourcePreview(ride.sourceThumbnail);
+  };
+
+  const handleSourceSelect = (image: string) => {
+    setSourceImage(image);
+    setSourcePreview(null);
+  };
+
+  const handleUpdateRide = (
+    id: string,
+    patch: Partial<Omit<ZombieRide, "id">>
+  ) =>
+    patchRides([id], (ride) => ({ ...ride, ...patch })).catch((e) =>
+      console.warn("Could not update the ride", e)
+    );
+
+  const handleSaveIdentity = (updated: CommanderProfile, avatar: string) =>
+    setProfile((prev) => updateIdentity(prev, updated, avatar));
+
+  const handleDriveRunEnd = (run: DriveRunResult) => {
+    setProfile((prev) => recordDriveRun(prev, run));
+    const ride = garage.find((r) => r.id === driveRide?.rideId);
+    if (ride && run.score > ride.bestDriveScore) {
+      handleUpdateRide(ride.id, { bestDriveScore: run.score });
+    }
+  };
+
+  const handleFiltersChange = (next: GarageFilters) => {
+    setGarageFilters(next);
+    saveGarageFilters(next);
+  };
+
+  const handleSaveMode = (saved: MutationMode) => {
+    const exists = customModes.some((m) => m.id === saved.id);
+    const updated = exists
+      ? customModes.map((m) => (m.id === saved.id ? saved : m))
+      : [...customModes, saved];
+    setCustomModes(updated);
+    saveCustomModes(updated);
+    setModeId(saved.id);
+    setEditingMode(null);
+  };
+
+  const handleDeleteMode = (id: ModeId) => {
+    const updated = customModes.filter((m) => m.id !== id);
+    setCustomModes(updated);
+    saveCustomModes(updated);
+    if (modeId === id) setModeId(DEFAULT_MODE_ID);
+    setEditingMode(null);
+  };
+
+  const updateVariant = (id: string, patch: Partial<GenerationVariant>) => {
+    setVariants((prev) =>
+      prev.map((v) => (v.id === id ? { ...v, ...patch } : v))
+    );
+  };
+
+  const runVariant = async (id: string) => {
+    const request = variantRequestRef.current;
+    if (!request) return;
+
+    const controllers = variantControllersRef.current;
+    controllers.get(id)?.abort();
+    const controller = new AbortController();
+    controllers.set(id, controller);
+
+    updateVariant(id, { status: "pending", phase: "queued", error: undefined });
+    try {
+      const result = await generateZombieCar(
+        request.sourceImage,
+        request.mode,
+        request.customDetails,
+        {
+          commander,
+          signal: controller.signal,
+          onProgress: (event) => updateVariant(id, { phase: event.phase }),
+          provider: providerRef.current,
+        }
+      );
+      updateVariant(id, {
+        status: "ready",
+        imageUrl: result.imageUrl,
+        render: toRenderInfo(result, request),
+      });
+      setProfile((prev) => recordRideBuilt(prev, request.mode.id));
+    } catch (err) {
+      updateVariant(id, {
+        status: "failed",
+        error: isAbortError(err) ? "Cancelled." : describeFailure(err).message,
+      });
+    } finally {
+      if (controllers.get(id) === controller) controllers.delete(id);
+    }
+  };
+
+  const removeVariant = (id: string) => {
+    variantControllersRef.current.get(id)?.abort();
+    setVariants((prev) => prev.filter((v) => v.id !== id));
+  };
+
+  const cancelVariants = () => {
+    variantControllersRef.current.forEach((controller) => controller.abort());
+  };
+
+  const handleDiscardAllVariants = () => {
+    cancelVariants();
+    setVariants([]);
+  };
+
+  // Starts the single tracked request and wires its events into `loading`.
+  const startOperation = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const onProgress = (event: GenerationEvent) =>
+      setLoading((prev) => applyGenerationEvent(prev, event, commander.name));
+    return { controller, onProgress };
+  };
+
+  const finishOperation = (controller: AbortController, err?: unknown) => {
+    if (abortRef.current === controller) abortRef.current = null;
+    if (err !== undefined && isAbortError(err)) {
+      setLoading((prev) => transition(prev, "cancelled"));
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    cancelVariants();
+  };
+
+  const handlePickVariant = (id: string) => {
+    const variant = variants.find((v) => v.id === id);
+    if (!variant?.imageUrl) return;
+    setGeneratedImage(variant.imageUrl, variant.render);
+    if (variantRequestRef.current) setModeId(variantRequestRef.current.mode.id);
+    removeVariant(id);
+  };
+
+  const handleSaveVariant = (id: string) => {
+    const variant = variants.find((v) => v.id === id);
+    if (!variant?.imageUrl) return;
+    saveRideToGarage(variant.imageUrl, variant.render, null);
+    removeVariant(id);
   };
 
   const handleGenerate = async () => {
     if (!sourceImage) {
-      setError("Mason needs a vehicle to upgrade! Upload a photo first.");
+      setError({
+        message: sourcePreview
+          ? `${commander.name} needs the full photo to build from – upload it again.`
+          : `${commander.name} needs a vehicle to upgrade! Upload a photo first.`,
+      });
       return;
     }
 
-    setLoading({ isLoading: true, message: "Initiating Garage Protocol..." });
     setError(null);
+    lastActionRef.current = handleGenerate;
     setGeneratedImage(null);
+    handleDiscardAllVariants();
+    setLoading(IDLE);
 
-    try {
-      const steps = [
-        "Scanning chassis integrity...",
-        "Welding reinforced steel plating...",
-        "Mounting roof-top zombie shredders...",
-        `Painting "MASON" insignia on doors...`,
-        "Applying radioactive decay effects...",
-        "Finalizing survival modifications...",
-      ];
-
-      let stepIndex = 0;
-      const interval = setInterval(() => {
-        if (stepIndex < steps.length) {
-          setLoading((prev) => ({ ...prev, message: steps[stepIndex] }));
-          stepIndex++;
-        }
-      }, 1200);
+    if (variantCount > 1) {
+      // Variants settle independently and stream into the grid; failures
+      // stay in their own slot for a per-variant retry.
+      variantRequestRef.current = {
+        sourceImage,
+        mode,
+        customDetails: customPrompt,
+      };
+      const batch: GenerationVariant[] = Array.from(
+        { length: variantCount },
+        () => ({ id: crypto.randomUUID(), status: "pending", phase: "queued" })
+      );
+      setVariants(batch);
+      await Promise.all(batch.map((v) => runVariant(v.id)));
+      return;
+    }
 
-      const resultBase64 = await generateZombieCar(
+    const request: VariantRequest = {
+      sourceImage,
+      mode,
+      customDetails: customPrompt,
+    };
+    const { controller, onProgress } = startOperation();
+    try {
+      const result = await generateZombieCar(
         sourceImage,
         mode,
-        customPrompt
+        customPrompt,
+        {
+          commander,
+          signal: controller.signal,
+          onProgress,
+          provider: providerRef.current,
+        }
       );
+      setGeneratedImage(result.imageUrl, toRenderInfo(result, request));
+      setProfile((prev) => recordRideBuilt(prev, mode.id));
+      finishOperation(controller);
+    } catch (err) {
+      finishOperation(controller, err);
+      if (isAbortError(err)) return;
+      setError(describeFailure(err));
+    }
+  };
 
-      clearInterval(interval);
-      setGeneratedImage(resultBase64);
-    } catch (err: any) {
-      setError(
-        err?.message || "Garage malfunction. Try uploading a smaller image."
+  const handleRefine = async (instruction: string) => {
+    if (!generatedImage) return;
+    // Refinements keep the original photo, mode and details of what they
+    // refine, whatever the selector has been changed to since.
+    const base = currentStep(history)?.render;
+    const baseMode = (base && findMode(modes, base.modeId)) ?? mode;
+    const details = base ? base.customDetails : customPrompt;
+
+    setIsRefining(true);
+    setError(null);
+    lastActionRef.current = () => handleRefine(instruction);
+    setLoading(IDLE);
+    const { controller, onProgress } = startOperation();
+    try {
+      const refined = await generateZombieCar(
+        generatedImage,
+        baseMode,
+        details,
+        {
+          commander,
+          instruction,
+          signal: controller.signal,
+          onProgress,
+          provider: providerRef.current,
+        }
       );
+      const render = toRenderInfo(refined, {
+        sourceImage: base ? base.sourceImage : sourceImage,
+        mode: baseMode,
+        customDetails: details,
+      });
+      // A refinement the model didn't describe keeps the kit it started with.
+      render.attributes ??= base?.attributes ?? null;
+      setHistory((prev) =>
+        pushRefinement(prev, refined.imageUrl, instruction, render)
+      );
+      setProfile(recordRefinement);
+      finishOperation(controller);
+    } catch (err) {
+      finishOperation(controller, err);
+      if (!isAbortError(err)) setError(describeFailure(err));
     } finally {
-      setLoading({ isLoading: false, message: "" });
+      setIsRefining(false);
     }
   };
 
-  const handleDownload = () => {
+  const handleRecovery = (action: RecoveryAction) => {
+    setError(null);
+    switch (action) {
+      case "retry":
+        lastActionRef.current?.();
+        break;
+      case "clear_details":
+        setCustomPrompt("");
+        break;
+      case "change_photo":
+        setSourceImage(null);
+        break;
+      case "use_mock":
+        // Switch in place; a reload would lose the photo and the history.
+        providerRef.current = mockProvider.id;
+        lastActionRef.current?.();
+        break;
+    }
+  };
+
+  // Card details for the image on screen. A ride loaded from the garage
+  // lends its name, and its drive score until it's refined.
+  const currentCardInfo = (imageUrl: string): RideCardInfo => {
+    const ride = garage.find((r) => r.id === historyRideId);
+    const label = modeLabel(modes, modeId);
+    return {
+      imageUrl,
+      name: ride ? rideTitle(ride, modeLabel(modes, ride.mode)) : `${label} ride`,
+      modeLabel: label,
+      commanderName: commander.name,
+      bestDriveScore:
+        ride && currentStep(history)?.instruction === null
+          ? ride.bestDriveScore
+          : 0,
+    };
+  };
+
+  // The image on screen as a file, framed as a ride card unless the
+  // original was picked, in the download format with metadata embedded.
+  const shareableImage = async (imageUrl: string) => {
+    const info = currentCardInfo(imageUrl);
+    const ride = garage.find((r) => r.id === historyRideId);
+    const source =
+      shareFormat === "original"
+        ? imageUrl
+        : await renderRideCard(info, shareFormat);
+    const blob = await exportImage(source, {
+      type: downloadSettings.format,
+      quality: downloadSettings.quality,
+      watermark: downloadSettings.watermark
+        ? downloadSettings.watermarkText.trim() ||
+          defaultWatermark(commander.name)
+        : null,
+      metadata: {
+        title: info.name,
+        mode: info.modeLabel,
+        prompt: currentStep(history)?.render?.promptUsed ?? "",
+        createdAt: ride?.createdAt ?? new Date().toISOString(),
+        author: commander.name,
+        software: `${APP_NAME} ${APP_VERSION}`,
+      },
+    });
+    const kind =
+      shareFormat === "original"
+        ? `zombie-ride-${Date.now()}`
+        : `ride-card-${shareFormat}`;
+    return {
+      blob,
+      filename: `${commanderSlug(commander)}-${kind}.${extensionForMimeType(
+        blob.type
+      )}`,
+    };
+  };
+
+  const handleExportReveal = async (format: RevealFormat) => {
+    if (!beforeImage || !generatedImage) return;
+    setRevealExporting(format);
+    try {
+      const blob = await exportReveal(beforeImage, generatedImage, format);
+      downloadBlob(blob, `${commanderSlug(commander)}-before-after.${format}`);
+    } catch (e) {
+      console.warn("Could not export the reveal", e);
+      setError({ message: "The before/after clip didn't render." });
+    } finally {
+      setRevealExporting(null);
+    }
+  };
+
+  const handleDownloadSettingsChange = (settings: DownloadSettings) => {
+    setDownloadSettings(settings);
+    saveDownloadSettings(settings);
+  };
+
+  const handleDownload = async () => {
     if (!generatedImage) return;
-    const link = document.createElement("a");
-    link.href = generatedImage;
-    link.download = `mason-zombie-ride-${Date.now()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    try {
+      const { blob, filename } = await shareableImage(generatedImage);
+      downloadBlob(blob, filename);
+    } catch (e) {
+      console.warn("Could not prepare the download", e);
+      setError({ message: "The download didn't render. Try another format." });
+    }
   };
 
   const handleRecruitTeam = async () => {
     const url = window.location.href;
     const shareData = {
-      title: "Commander Mason's Zombie Garage",
-      text: "Mason is building zombie survival trucks! Build yours here:",
+      title: `Commander ${commander.name}'s Zombie Garage`,
+      text: `${commander.name} is building zombie survival trucks! Build yours here:`,
       url,
     };
 
@@ -215,11 +1096,8 @@ const App: React.FC = () => {
     if (!generatedImage) return;
 
     try {
-      const res = await fetch(generatedImage);
-      const blob = await res.blob();
-      const file = new File([blob], "mason-zombie-ride.png", {
-        type: "image/png",
-      });
+      const { blob, filename } = await shareableImage(generatedImage);
+      const file = new File([blob], filename, { type: blob.type });
 
       if (
         navigator.share &&
@@ -227,8 +1105,8 @@ const App: React.FC = () => {
         navigator.canShare({ files: [file] })
       ) {
         await navigator.share({
-          title: "Mason's New Ride",
-          text: "Check out this zombie survival vehicle I built in Commander Mason's Garage!",
+          title: `${commander.name}'s New Ride`,
+          text: `Check out this zombie survival vehicle I built in Commander ${commander.name}'s Garage!`,
           files: [file],
         });
       } else {
@@ -251,7 +1129,8 @@ const App: React.FC = () => {
             </div>
             <div>
               <h1 className="text-xl sm:text-2xl font-zombie text-white tracking-wider leading-none">
-                MASON'S <span className="text-lime-500">GARAGE</span>
+                {headerTitle.slice(0, headerSplit + 1)}
+                <span className="text-lime-500">{headerTitle.slice(headerSplit + 1)}</span>
               </h1>
               <p className="text-[10px] text-zinc-500 font-mono tracking-widest uppercase">
                 Zombie Defense Unit
@@ -287,8 +1166,8 @@ const App: React.FC = () => {
           <p className="text-zinc-400 max-w-xl mx-auto text-sm sm:text-base">
             Upload your vehicle. The AI will equip it with armour, weapons, and
             the official{" "}
-            <span className="text-lime-400 font-bold ml-1">
-              COMMANDER MASON
+            <span className="text-lime-400 font-bold ml-1 uppercase">
+              Commander {commander.name}
             </span>{" "}
             seal of approval.
           </p>
@@ -297,7 +1176,11 @@ const App: React.FC = () => {
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 items-start">
           {/* Controls */}
           <div className="lg:col-span-5 space-y-6">
-            <SurvivorCard />
+            <SurvivorCard
+              profile={profile}
+              modes={modes}
+              onSave={handleSaveIdentity}
+            />
 
             <div className="bg-zinc-900/30 p-6 rounded-2xl border border-zinc-800 backdrop-blur-sm space-y-6 shadow-xl">
               <div className="space-y-2">
@@ -306,9 +1189,23 @@ const App: React.FC = () => {
                   1. Upload Base Vehicle
                 </label>
                 <ImageUploader
-                  onImageSelect={setSourceImage}
+                  onImageSelect={handleSourceSelect}
                   currentImage={sourceImage}
                 />
+                {!sourceImage && sourcePreview && (
+                  <div className="flex items-center gap-3 p-2 rounded-lg bg-zinc-900/60 border border-zinc-800">
+                    <img
+                      src={sourcePreview}
+                      alt="Photo this ride was built from"
+                      className="w-16 h-16 object-cover rounded-md border border-zinc-700"
+                    />
+                    <p className="text-xs text-zinc-400">
+                      The loaded ride was built from this photo. The garage
+                      only keeps a preview, so upload it again to build new
+                      rides from it. Refining works without it.
+                    </p>
+                  </div>
+                )}
               </div>
 
               <div className="space-y-3">
@@ -317,58 +1214,109 @@ const App: React.FC = () => {
                   2. Select Mutation Mode
                 </label>
                 <div className="grid grid-cols-2 gap-2">
-                  {Object.values(GenerationMode).map((m) => (
-                    <button
-                      key={m}
-                      onClick={() => setMode(m)}
-                      className={`p-3 rounded-lg border text-sm font-medium transition-all text-left flex flex-col gap-1 relative overflow-hidden group ${
-                        mode === m
-                          ? "bg-lime-950/40 border-lime-500 text-lime-400 shadow-[0_0_10px_rgba(132,204,22,0.1)]"
-                          : "bg-zinc-800/50 border-zinc-700 text-zinc-400 hover:bg-zinc-800 hover:border-zinc-500"
-                      }`}
-                    >
-                      <span className="relative z-10 font-bold uppercase text-xs">
-                        {m}
-                      </span>
-                      {mode === m && (
-                        <div className="absolute inset-0 bg-lime-500/10 animate-pulse"></div>
+                  {modes.map((m) => (
+                    <div key={m.id} className="relative">
+                      <button
+                        onClick={() => setModeId(m.id)}
+                        className={`w-full h-full p-3 rounded-lg border text-sm font-medium transition-all text-left flex items-center gap-2 relative overflow-hidden group ${
+                          mode.id === m.id
+                            ? "bg-lime-950/40 border-lime-500 text-lime-400 shadow-[0_0_10px_rgba(132,204,22,0.1)]"
+                            : "bg-zinc-800/50 border-zinc-700 text-zinc-400 hover:bg-zinc-800 hover:border-zinc-500"
+                        }`}
+                      >
+                        <ModeIcon
+                          name={m.icon}
+                          className="w-4 h-4 shrink-0 relative z-10"
+                        />
+                        <span className="relative z-10 font-bold uppercase text-xs pr-4">
+                          {m.label}
+                        </span>
+                        {mode.id === m.id && (
+                          <div className="absolute inset-0 bg-lime-500/10 animate-pulse"></div>
+                        )}
+                      </button>
+                      {!m.builtIn && (
+                        <button
+                          onClick={() =>
+                            setEditingMode({ mode: m, isNew: false })
+                          }
+                          title="Edit mode"
+                          className="absolute top-1.5 right-1.5 p-1 rounded text-zinc-500 hover:text-lime-400"
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </button>
                       )}
-                    </button>
+                    </div>
                   ))}
+                  <button
+                    onClick={() =>
+                      setEditingMode({ mode: emptyCustomMode(), isNew: true })
+                    }
+                    className="p-3 rounded-lg border border-dashed border-zinc-700 text-zinc-500 hover:text-lime-400 hover:border-lime-500/50 text-xs font-bold uppercase flex items-center justify-center gap-2"
+                  >
+                    <Plus className="w-4 h-4" /> New mode
+                  </button>
                 </div>
+
+                {editingMode && (
+                  <ModeEditor
+                    key={editingMode.mode.id}
+                    mode={editingMode.mode}
+                    isNew={editingMode.isNew}
+                    onSave={handleSaveMode}
+                    onDelete={handleDeleteMode}
+                    onClose={() => setEditingMode(null)}
+                  />
+                )}
               </div>
 
               <div className="space-y-2">
                 <label className="text-xs font-bold text-zinc-500 uppercase flex items-center gap-2">
                   <Skull className="w-4 h-4 text-red-500" />
-                  3. Mason's Special Requests
+                  3. {commander.name}'s Special Requests
                 </label>
                 <textarea
                   value={customPrompt}
                   onChange={(e) => setCustomPrompt(e.target.value)}
-                  placeholder='e.g. "Add a minigun, make it covered in slime, blue neon lights..."'
+                  placeholder={`e.g. "${mode.defaultDetails || "Add a minigun, make it covered in slime, blue neon lights"}..."`}
                   className="w-full bg-zinc-950 border border-zinc-800 rounded-lg p-3 text-sm text-zinc-300 focus:outline-none focus:border-lime-500/50 focus:ring-1 focus:ring-lime-500/50 resize-none h-20 placeholder:text-zinc-700"
                 />
               </div>
 
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-xs font-bold text-zinc-500 uppercase">
+                  Variants
+                </span>
+                <div className="flex gap-1">
+                  {VARIANT_OPTIONS.map((n) => (
+                    <button
+                      key={n}
+                      onClick={() => setVariantCount(n)}
+                      className={`w-9 py-1 rounded-md border text-xs font-bold transition-all ${
+                        variantCount === n
+                          ? "bg-lime-950/40 border-lime-500 text-lime-400"
+                          : "bg-zinc-800/50 border-zinc-700 text-zinc-400 hover:border-zinc-500"
+                      }`}
+                    >
+                      {n}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               <Button
                 onClick={handleGenerate}
-                isLoading={loading.isLoading}
+                isLoading={busy}
                 className="w-full py-4 text-lg shadow-lg shadow-lime-900/20"
               >
                 MUTATE RIDE
               </Button>
 
-              {loading.isLoading && (
-                <div className="text-center bg-black/50 p-4 rounded-lg border border-lime-500/20">
-                  <p className="text-xs text-lime-400 font-mono animate-pulse uppercase tracking-widest mb-2">
-                    {loading.message}
-                  </p>
-                  <div className="w-full bg-zinc-800 h-1.5 rounded-full overflow-hidden">
-                    <div className="h-full bg-lime-500 animate-[progress_1.5s_ease-in-out_infinite] w-2/3 shadow-[0_0_10px_lime]"></div>
-                  </div>
-                </div>
-              )}
+              <GenerationStatus
+                state={loading}
+                pendingVariants={pendingVariants}
+                onCancel={handleCancel}
+              />
 
               {error && (
                 <div className="p-4 bg-red-950/30 border border-red-900/50 rounded-lg text-red-200 text-sm flex items-start gap-3 animate-in fade-in slide-in-from-top-2">
@@ -377,7 +1325,15 @@ const App: React.FC = () => {
                     <p className="font-bold text-red-400 uppercase text-xs mb-1">
                       Critical Failure
                     </p>
-                    <p className="opacity-90">{error}</p>
+                    <p className="opacity-90">{error.message}</p>
+                    {error.action && (
+                      <button
+                        onClick={() => handleRecovery(error.action!)}
+                        className="mt-3 text-[11px] px-3 py-1 rounded-md bg-red-900/60 hover:bg-red-800/60 border border-red-700 text-red-100 font-bold uppercase tracking-wider"
+                      >
+                        {error.actionLabel}
+                      </button>
+                    )}
                   </div>
                 </div>
               )}
@@ -386,6 +1342,17 @@ const App: React.FC = () => {
 
           {/* Results / Garage */}
           <div className="lg:col-span-7">
+            {variants.length > 0 && (
+              <VariantGrid
+                variants={variants}
+                onPick={handlePickVariant}
+                onRetry={runVariant}
+                onSave={handleSaveVariant}
+                onDiscard={removeVariant}
+                onDiscardAll={handleDiscardAllVariants}
+              />
+            )}
+
             {/* Main image panel */}
             <div className="relative rounded-2xl overflow-hidden border border-zinc-800 bg-black shadow-2xl min-h-[400px] sm:min-h-[600px] flex items-center justify-center group">
               <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/carbon-fibre.png')] opacity-20"></div>
@@ -404,20 +1371,40 @@ const App: React.FC = () => {
                 </div>
               ) : (
                 <div className="relative w-full h-full bg-zinc-900 flex flex-col">
-                  <div className="flex-1 flex items-center justify-center bg-black">
-                    <img
-                      src={generatedImage}
-                      alt="Zombie Car"
-                      className="w-full h-auto max-h-[70vh] object-contain shadow-2xl"
+                  {beforeImage ? (
+                    <CompareView
+                      before={beforeImage}
+                      after={generatedImage}
+                      mode={compareMode}
+                      onModeChange={setCompareMode}
+                      exporting={revealExporting}
+                      onExport={handleExportReveal}
                     />
-                  </div>
+                  ) : (
+                    <div className="flex-1 flex items-center justify-center bg-black">
+                      <img
+                        src={generatedImage}
+                        alt="Zombie Car"
+                        className="w-full h-auto max-h-[70vh] object-contain shadow-2xl"
+                      />
+                    </div>
+                  )}
+
+                  <RefinePanel
+                    history={history}
+                    isRefining={isRefining}
+                    onRefine={handleRefine}
+                    onUndo={() => setHistory(undo)}
+                    onRedo={() => setHistory(redo)}
+                    onJump={(index) => setHistory((prev) => jumpTo(prev, index))}
+                  />
 
                   <div className="p-4 bg-zinc-900 border-t border-zinc-800 flex flex-col sm:flex-row items-center justify-between gap-4">
                     <div className="font-mono text-xs text-lime-500 flex items-center gap-2">
                       <div className="w-2 h-2 bg-lime-500 rounded-full animate-pulse"></div>
                       <div>
                         <p className="font-bold uppercase tracking-wider">
-                          Property of Mason
+                          Property of {commander.name}
                         </p>
                         <p className="text-zinc-500 text-[10px]">
                           {new Date().toLocaleString()}
@@ -435,6 +1422,23 @@ const App: React.FC = () => {
                       </Button>
 
                       <div className="flex gap-2 w-full sm:w-auto">
+                        <select
+                          value={shareFormat}
+                          onChange={(e) =>
+                            setShareFormat(e.target.value as ShareFormat)
+                          }
+                          title="Format for download and share"
+                          className="bg-zinc-950 border border-zinc-700 rounded-lg px-2 text-xs text-zinc-300 focus:outline-none focus:border-lime-500/50"
+                        >
+                          <option value="original">Original image</option>
+                          {(Object.keys(CARD_FORMATS) as CardFormat[]).map(
+                            (format) => (
+                              <option key={format} value={format}>
+                                Card: {CARD_FORMATS[format].label}
+                              </option>
+                            )
+                          )}
+                        </select>
                         <Button
                           variant="secondary"
                           onClick={handleShareImage}
@@ -453,9 +1457,27 @@ const App: React.FC = () => {
                           <span className="sm:hidden">Save</span>
                           <span className="hidden sm:inline">Download HD</span>
                         </Button>
+                        <button
+                          onClick={() => setShowDownloadOptions((v) => !v)}
+                          title="Download options"
+                          className={`p-2 rounded-lg border ${
+                            showDownloadOptions
+                              ? "border-lime-500/60 text-lime-400"
+                              : "border-zinc-700 text-zinc-400 hover:text-zinc-200"
+                          }`}
+                        >
+                          <Settings2 className="w-4 h-4" />
+                        </button>
                       </div>
                     </div>
                   </div>
+                  {showDownloadOptions && (
+                    <DownloadOptions
+                      settings={downloadSettings}
+                      onChange={handleDownloadSettingsChange}
+                      commanderName={commander.name}
+                    />
+                  )}
                 </div>
               )}
             </div>
@@ -494,82 +1516,196 @@ const App: React.FC = () => {
             <section className="mt-10 border-t border-zinc-800 pt-6">
               <h2 className="text-xl font-zombie text-lime-400 mb-3 flex items-center gap-2">
                 <Car className="w-5 h-5 text-lime-400" />
-                Mason's Zombie Garage
+                {commander.name}'s Zombie Garage
               </h2>
+              {storage && (
+                <p className="text-[11px] text-zinc-500 font-mono mb-3">
+                  Storage: {formatBytes(storage.used)} used,{" "}
+                  {formatBytes(storage.remaining)} free
+                </p>
+              )}
+              <div className="flex flex-wrap items-center gap-3 mb-4">
+                <button
+                  onClick={() => exportRides(liveRides)}
+                  disabled={liveRides.length === 0 || bulkBusy}
+                  className="flex items-center gap-1 text-[11px] text-zinc-400 hover:text-lime-400 disabled:opacity-40 disabled:cursor-not-allowed uppercase font-bold"
+                >
+                  <FileDown className="w-3 h-3" /> Export garage
+                </button>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={bulkBusy}
+                  className="flex items-center gap-1 text-[11px] text-zinc-400 hover:text-lime-400 disabled:opacity-40 uppercase font-bold"
+                >
+                  <FileUp className="w-3 h-3" /> Import
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".zip,.json,application/zip,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) handleImportFile(file);
+                  }}
+                />
+                {importNotice && (
+                  <span className="text-[11px] text-lime-400">
+                    {importNotice}
+                  </span>
+                )}
+              </div>
 
-              {garage.length === 0 ? (
+              {liveRides.length === 0 ? (
                 <p className="text-sm text-zinc-500">
-                  No rides saved yet. Once Mason mutates a vehicle, hit{" "}
+                  No rides saved yet. Once {commander.name} mutates a vehicle, hit{" "}
                   <span className="text-lime-400 font-semibold">
                     Save to Garage
                   </span>{" "}
                   to store it here.
                 </p>
               ) : (
-                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                  {garage.map((ride) => (
-                    <div
-                      key={ride.id}
-                      className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-3 flex flex-col gap-2 hover:border-lime-500/40 transition-colors"
+                <>
+                  <GarageToolbar
+                    filters={garageFilters}
+                    onChange={handleFiltersChange}
+                    modes={modes}
+                    tags={allTags(liveRides)}
+                    shown={visibleRides.length}
+                    total={liveRides.length}
+                  />
+                  {selecting ? (
+                    <GarageBulkBar
+                      selectedCount={selectedIds.size}
+                      visibleCount={visibleRides.length}
+                      busy={bulkBusy}
+                      onSelectAll={() =>
+                        setSelectedIds(new Set(visibleRides.map((r) => r.id)))
+                      }
+                      onClearSelection={() => setSelectedIds(new Set())}
+                      onDelete={() => handleDeleteRides([...selectedIds])}
+                      onTag={handleBulkTag}
+                      onExport={handleBulkExport}
+                      onDownloadZip={handleBulkZip}
+                      onDone={exitSelectMode}
+                    />
+                  ) : (
+                    <button
+                      onClick={() => setSelecting(true)}
+                      className="mb-4 flex items-center gap-1 text-[11px] text-zinc-400 hover:text-lime-400 uppercase font-bold"
                     >
-                      <div
-                        className="relative cursor-pointer group"
-                        onClick={() => handleLoadRide(ride.id)}
-                        title="Load this ride"
-                      >
-                        <img
-                          src={ride.image}
-                          alt={`Zombie ride (${ride.mode})`}
-                          className="rounded-lg border border-zinc-700 group-hover:border-lime-500/60 transition-colors"
+                      <CheckSquare className="w-3 h-3" /> Select rides
+                    </button>
+                  )}
+                  {visibleRides.length === 0 && (
+                    <p className="text-sm text-zinc-500">
+                      No rides match these filters.
+                    </p>
+                  )}
+                  <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                    {visibleRides.map((ride) => {
+                      const label = modeLabel(modes, ride.mode);
+                      const parent = ride.parentId
+                        ? garage.find((r) => r.id === ride.parentId)
+                        : undefined;
+                      return (
+                        <GarageCard
+                          key={ride.id}
+                          ride={ride}
+                          modeLabel={label}
+                          parentTitle={
+                            parent
+                              ? rideTitle(parent, modeLabel(modes, parent.mode))
+                              : null
+                          }
+                          onLoad={() => handleLoadRide(ride.id)}
+                          onDrive={() =>
+                            setDriveRide({
+                              rideId: ride.id,
+                              rideName: rideTitle(ride, label),
+                              imageUrl: ride.imageUrl,
+                              stats: ride.stats,
+                              loadout: rideLoadout(ride.mode, ride.attributes),
+                            })
+                          }
+                          onDelete={() => handleDeleteRides([ride.id])}
+                          onUpdate={(patch) => handleUpdateRide(ride.id, patch)}
+                          onTagClick={(tag) =>
+                            handleFiltersChange({ ...garageFilters, tag })
+                          }
+                          selectable={selecting}
+                          selected={selectedIds.has(ride.id)}
+                          onToggleSelect={() => toggleSelected(ride.id)}
                         />
-                        <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 flex items-center justify-center text-[11px] text-lime-300 font-mono uppercase tracking-wide transition-opacity">
-                          Tap to Load
-                        </div>
-                      </div>
-
-                      <div className="text-[11px] text-zinc-400 space-y-1">
-                        <div>
-                          Mode:{" "}
-                          <span className="uppercase text-zinc-200">
-                            {ride.mode}
-                          </span>
-                        </div>
-                        <div>Saved: {ride.createdAt}</div>
-                      </div>
-
-                      <button
-                        onClick={() =>
-                          setDriveRide({
-                            rideName: `${ride.mode} • ${ride.createdAt}`,
-                            imageUrl: ride.image,
-                          })
-                        }
-                        className="mt-1 self-stretch text-[11px] px-3 py-1 rounded-md bg-emerald-500 hover:bg-emerald-400 text-slate-950 font-semibold text-center"
-                      >
-                        Drive this ride
-                      </button>
-
-                      <button
-                        onClick={() => handleDeleteRide(ride.id)}
-                        className="mt-1 self-end text-[11px] text-red-400 hover:text-red-300"
-                      >
-                        Delete
-                      </button>
-                    </div>
-                  ))}
-                </div>
+                      );
+                    })}
+                  </div>
+                </>
               )}
+
+              <RecentlyDeleted
+                rides={binnedRides}
+                titleOf={(ride) => rideTitle(ride, modeLabel(modes, ride.mode))}
+                onRestore={handleRestoreRides}
+                onDeleteForever={handleDeleteForever}
+              />
             </section>
           </div>
         </div>
       </main>
 
+      {/* Binned rides are the obvious ones to scrap, so they come first. */}
+      {pendingSave && (
+        <GarageFullDialog
+          rides={[...binnedRides, ...liveRides].map((ride) => ({
+            id: ride.id,
+            imageUrl: ride.imageUrl,
+            label: `${isInBin(ride) ? "Deleted · " : ""}${rideTitle(
+              ride,
+              modeLabel(modes, ride.mode)
+            )}`,
+            bytes: ride.imageBytes,
+          }))}
+          neededBytes={pendingSave.image.size}
+          storage={storage}
+          onEvict={handleEvictAndSave}
+          onCancel={() => setPendingSave(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <GarageImportDialog
+          fileName={pendingImport.fileName}
+          archive={pendingImport.archive}
+          clashes={countClashes(
+            pendingImport.archive.rides,
+            new Set(garage.map((r) => r.id))
+          )}
+          busy={bulkBusy}
+          onImport={handleImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {undoDelete && (
+        <UndoToast
+          key={undoDelete.id}
+          message={undoDelete.message}
+          onUndo={() => handleRestoreRides(undoDelete.ids)}
+          onDismiss={() => setUndoDelete(null)}
+        />
+      )}
+
       {/* Drive Mode overlay */}
       {driveRide && (
         <DriveMode
           rideName={driveRide.rideName}
           carImageUrl={driveRide.imageUrl}
+          stats={driveRide.stats}
+          loadout={driveRide.loadout}
           onExit={() => setDriveRide(null)}
+          onRunEnd={handleDriveRunEnd}
         />
       )}
     </div>
@@ -0,0 +1,69 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Plugin } from "vite";
+import { createZombieVehicleHandler } from "../createZombieVehicle";
+import { resolveModelClient } from "./modelClient";
+
+// Mounts the /api handlers on the Vite dev server so `npm run dev` behaves
+// like the deployed app. Set ZOMBIE_MODEL_CLIENT=stub to work offline.
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8");
+      if (!raw) {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(raw));
+      } catch (e) {
+        reject(e);
+      }
+    });
+    req.on("error", reject);
+  });
+
+const adaptResponse = (res: ServerResponse) => {
+  const api = {
+    status(code: number) {
+      res.statusCode = code;
+      return api;
+    },
+    json(body: unknown) {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(body));
+    },
+  };
+  return api;
+};
+
+export const zombieApiPlugin = (
+  env: Record<string, string | undefined>
+): Plugin => ({
+  name: "zombie-api",
+  configureServer(server) {
+    const handler = createZombieVehicleHandler(() => resolveModelClient(env));
+
+    server.middlewares.use("/api/createZombieVehicle", async (req, res) => {
+      const response = adaptResponse(res);
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch {
+        response.status(400).json({ error: "Invalid JSON body" });
+        return;
+      }
+      // A cancelled browser request closes the socket before we answer.
+      const controller = new AbortController();
+      res.on("close", () => {
+        if (!res.writableEnded) controller.abort();
+      });
+      await handler(
+        { method: req.method, body, signal: controller.signal },
+        response
+      );
+    });
+  },
+});
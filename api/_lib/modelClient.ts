@@ -0,0 +1,127 @@
+import { FinishReason, GoogleGenAI } from "@google/genai";
+import { GenerationError } from "../../services/generationErrors";
+
+// Anything under api/_lib is server-only: it is never bundled for the browser,
+// so this is the only place the Gemini key is read.
+
+export const IMAGE_MODEL = "gemini-2.5-flash-image";
+
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.IMAGE_SAFETY,
+];
+
+export interface ImageModelRequest {
+  imageBase64: string;
+  mimeType: string;
+  prompt: string;
+  systemInstruction: string;
+  /** Fires when the caller went away; the model call is dropped. */
+  signal?: AbortSignal;
+}
+
+export interface ImageModelResult {
+  data: string;
+  mimeType: string;
+  /** Any text the model sent alongside the image; empty if none. */
+  text: string;
+}
+
+export interface ImageModelClient {
+  name: string;
+  generateImage(request: ImageModelRequest): Promise<ImageModelResult>;
+}
+
+export const createGeminiModelClient = (apiKey: string): ImageModelClient => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: IMAGE_MODEL,
+    async generateImage({
+      imageBase64,
+      mimeType,
+      prompt,
+      systemInstruction,
+      signal,
+    }) {
+      const response = await ai.models.generateContent({
+        model: IMAGE_MODEL,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType,
+                data: imageBase64,
+              },
+            },
+            {
+              text: prompt,
+            },
+          ],
+        },
+        config: {
+          systemInstruction,
+          temperature: 0.8,
+          abortSignal: signal,
+        },
+      });
+
+      const blockReason = response.promptFeedback?.blockReason;
+      const candidate = response.candidates?.[0];
+      if (
+        blockReason ||
+        SAFETY_FINISH_REASONS.includes(candidate?.finishReason)
+      ) {
+        throw new GenerationError(
+          "safety_block",
+          `Blocked by safety filters (${blockReason ?? candidate?.finishReason}).`
+        );
+      }
+
+      // Extract image from response
+      const parts = candidate?.content?.parts ?? [];
+      const image = parts.find((part) => part.inlineData?.data)?.inlineData;
+      if (!image?.data) {
+        throw new GenerationError(
+          "no_image",
+          "No image generated by the model."
+        );
+      }
+      return {
+        data: image.data,
+        mimeType: image.mimeType || "image/png",
+        text: parts
+          .filter((part) => part.text && !part.thought)
+          .map((part) => part.text)
+          .join("\n"),
+      };
+    },
+  };
+};
+
+// Offline stand-in: hands the uploaded photo straight back so the whole
+// request/response path can be exercised without a key or network.
+export const createStubModelClient = (): ImageModelClient => ({
+  name: "stub",
+  async generateImage({ imageBase64, mimeType }) {
+    return { data: imageBase64, mimeType, text: "" };
+  },
+});
+
+type ModelEnv = Record<string, string | undefined>;
+
+export const resolveModelClient = (
+  env: ModelEnv = process.env
+): ImageModelClient => {
+  if (env.ZOMBIE_MODEL_CLIENT === "stub") {
+    return createStubModelClient();
+  }
+
+  const apiKey = env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new GenerationError("bad_key", "Missing GEMINI_API_KEY on server");
+  }
+  return createGeminiModelClient(apiKey);
+};
@@ -0,0 +1,142 @@
+// api/createZombieVehicle.ts
+import { CommanderProfile, PromptMode, RideAttributes } from "../types";
+import { DEFAULT_COMMANDER, parseCommander } from "../services/commander";
+import { getBuiltInMode, parsePromptMode } from "../services/modeRegistry";
+import {
+  buildGenerationPrompt,
+  buildRefinementPrompt,
+  getSystemInstruction,
+  MAX_INSTRUCTION_LENGTH,
+} from "../services/prompts";
+import {
+  classifyError,
+  GenerationErrorKind,
+  statusForKind,
+} from "../services/generationErrors";
+import { extractRideAttributes } from "../services/rideStats";
+import { ImageModelClient, resolveModelClient } from "./_lib/modelClient";
+
+export interface CreateZombieVehicleBody {
+  image: string;
+  /** Built-in mode id, or the id of `customMode`. */
+  mode: string;
+  /** Full definition for user-made modes the server can't know about. */
+  customMode?: PromptMode;
+  customDetails?: string;
+  /** Whose name goes on the car; defaults to Mason. */
+  commander?: CommanderProfile;
+  /** Set when `image` is a previous output being refined. */
+  instruction?: string;
+}
+
+export interface CreateZombieVehicleResponse {
+  image: string;
+  model: string;
+  /** The prompt the model was given, for the ride's records. */
+  prompt: string;
+  /** What the model says it fitted; null if it didn't say. */
+  attributes: RideAttributes | null;
+}
+
+export interface CreateZombieVehicleError {
+  error: string;
+  code?: GenerationErrorKind;
+}
+
+// Minimal slice of the Vercel / Express req+res shape that we rely on, so the
+// same handler runs on the platform and inside the Vite dev middleware.
+export interface ApiRequest {
+  method?: string;
+  body?: unknown;
+  /** Aborted when the client disconnects, where the host can tell us. */
+  signal?: AbortSignal;
+}
+
+export interface ApiResponse {
+  status(code: number): ApiResponse;
+  json(body: unknown): void;
+}
+
+const DATA_URL_PATTERN = /^data:(image\/[a-z0-9.+-]+);base64,(.+)$/i;
+
+export const createZombieVehicleHandler =
+  (getClient: () => ImageModelClient) =>
+  async (req: ApiRequest, res: ApiResponse) => {
+    if (req.method !== "POST") {
+      res.status(405).json({ error: "Method not allowed" });
+      return;
+    }
+
+    const { image, mode, customMode, customDetails, commander, instruction } =
+      (req.body || {}) as Partial<CreateZombieVehicleBody>;
+
+    if (typeof image !== "string" || !image) {
+      res.status(400).json({ error: "Missing image" });
+      return;
+    }
+
+    // Built-ins always come from the registry; only unknown ids may bring
+    // their own definition.
+    const builtIn = typeof mode === "string" ? getBuiltInMode(mode) : undefined;
+    const custom = builtIn ? null : parsePromptMode(customMode);
+    const promptMode = builtIn ?? (custom?.id === mode ? custom : null);
+    if (!promptMode) {
+      res.status(400).json({ error: `Unknown mode: ${String(mode)}` });
+      return;
+    }
+
+    const profile =
+      commander === undefined ? DEFAULT_COMMANDER : parseCommander(commander);
+    if (!profile) {
+      res.status(400).json({ error: "Invalid commander profile" });
+      return;
+    }
+
+    const refinement =
+      typeof instruction === "string" ? instruction.trim() : "";
+    if (refinement.length > MAX_INSTRUCTION_LENGTH) {
+      res.status(400).json({
+        error: `Instruction must be ${MAX_INSTRUCTION_LENGTH} characters or fewer`,
+      });
+      return;
+    }
+
+    const match = DATA_URL_PATTERN.exec(image);
+    if (!match) {
+      res.status(400).json({ error: "Image must be a base64 data URL" });
+      return;
+    }
+
+    try {
+      const client = getClient();
+      const details = typeof customDetails === "string" ? customDetails : "";
+      const prompt = refinement
+        ? buildRefinementPrompt(promptMode, refinement, details, profile)
+        : buildGenerationPrompt(promptMode, details, profile);
+      const result = await client.generateImage({
+        mimeType: match[1].toLowerCase(),
+        imageBase64: match[2],
+        prompt,
+        systemInstruction: getSystemInstruction(promptMode, profile),
+        signal: req.signal,
+      });
+
+      const body: CreateZombieVehicleResponse = {
+        image: `data:${result.mimeType};base64,${result.data}`,
+        model: client.name,
+        prompt,
+        attributes: extractRideAttributes(result.text),
+      };
+      res.status(200).json(body);
+    } catch (error) {
+      console.error("Gemini API Error:", error);
+      const classified = classifyError(error);
+      const body: CreateZombieVehicleError = {
+        error: classified.message,
+        code: classified.kind,
+      };
+      res.status(statusForKind(classified.kind)).json(body);
+    }
+  };
+
+export default createZombieVehicleHandler(() => resolveModelClient());
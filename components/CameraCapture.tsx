@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, SwitchCamera, X, AlertTriangle } from 'lucide-react';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+type Facing = 'environment' | 'user';
+
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [facing, setFacing] = useState<Facing>('environment');
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // (Re)open the stream whenever the facing camera changes.
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('This browser has no camera access. Upload a photo instead.');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setIsReady(false);
+    setError(null);
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: {
+          facingMode: { ideal: facing },
+          width: { ideal: 1920 },
+          height: { ideal: 1080 },
+        },
+        audio: false,
+      })
+      .then((s) => {
+        if (cancelled) {
+          s.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        stream = s;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = s;
+          video.play().catch(() => {});
+        }
+      })
+      .catch((err: DOMException) => {
+        if (cancelled) return;
+        setError(
+          err?.name === 'NotAllowedError'
+            ? 'Camera permission was denied. Allow it in your browser settings, or upload a photo.'
+            : 'Could not start the camera. Upload a photo instead.'
+        );
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, [facing]);
+
+  const handleShutter = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0);
+
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) return;
+        onCapture(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+      },
+      'image/jpeg',
+      0.92
+    );
+  };
+
+  return (
+    <div className="relative w-full h-64 bg-black rounded-lg overflow-hidden border border-zinc-700">
+      {error ? (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-orange-400 text-sm text-center px-6">
+          <AlertTriangle className="w-6 h-6" />
+          {error}
+        </div>
+      ) : (
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          onLoadedData={() => setIsReady(true)}
+          className={`w-full h-full object-cover ${facing === 'user' ? 'scale-x-[-1]' : ''}`}
+        />
+      )}
+
+      <button
+        onClick={onClose}
+        title="Close camera"
+        className="absolute top-2 right-2 p-1.5 rounded-full bg-black/70 border border-zinc-600 text-zinc-200 hover:text-white"
+      >
+        <X className="w-4 h-4" />
+      </button>
+
+      {!error && (
+        <div className="absolute bottom-3 inset-x-0 flex items-center justify-center gap-6">
+          <button
+            onClick={() => setFacing((f) => (f === 'environment' ? 'user' : 'environment'))}
+            title="Switch camera"
+            className="p-2 rounded-full bg-black/70 border border-zinc-600 text-zinc-200 hover:text-white"
+          >
+            <SwitchCamera className="w-5 h-5" />
+          </button>
+          <button
+            onClick={handleShutter}
+            disabled={!isReady}
+            title="Take photo"
+            className="w-14 h-14 rounded-full bg-lime-500 border-4 border-white shadow-[0_0_15px_rgba(132,204,22,0.6)] flex items-center justify-center disabled:opacity-40"
+          >
+            <Camera className="w-6 h-6 text-black" />
+          </button>
+          <div className="w-9" />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useRef, useState } from 'react';
+import { Columns2, Eye, Film, Image as ImageIcon, SquareSplitHorizontal } from 'lucide-react';
+import { canExportReveal, RevealFormat } from '../services/revealExport';
+
+export type CompareMode = 'single' | 'slider' | 'hold' | 'side';
+
+interface CompareViewProps {
+  before: string;
+  after: string;
+  mode: CompareMode;
+  onModeChange: (mode: CompareMode) => void;
+  /** Which reveal is being exported, if any. */
+  exporting: RevealFormat | null;
+  onExport: (format: RevealFormat) => void;
+}
+
+const MODES: Array<{ id: CompareMode; label: string; icon: React.ReactNode }> = [
+  { id: 'single', label: 'Ride only', icon: <ImageIcon className="w-3 h-3" /> },
+  { id: 'slider', label: 'Slider', icon: <SquareSplitHorizontal className="w-3 h-3" /> },
+  { id: 'hold', label: 'Hold to compare', icon: <Eye className="w-3 h-3" /> },
+  { id: 'side', label: 'Side by side', icon: <Columns2 className="w-3 h-3" /> },
+];
+
+const imageClass = 'w-full h-auto max-h-[70vh] object-contain';
+
+const Label: React.FC<{ children: React.ReactNode; side: 'left' | 'right' }> = ({ children, side }) => (
+  <span
+    className={`absolute top-2 ${
+      side === 'left' ? 'left-2' : 'right-2'
+    } px-2 py-0.5 rounded bg-black/70 text-[10px] font-mono uppercase tracking-widest text-zinc-200 pointer-events-none`}
+  >
+    {children}
+  </span>
+);
+
+export const CompareView: React.FC<CompareViewProps> = ({ before, after, mode, onModeChange, exporting, onExport }) => {
+  // Percentage of the width showing the original photo.
+  const [split, setSplit] = useState(50);
+  const [holding, setHolding] = useState(false);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  const splitAt = (clientX: number) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const onSliderKey = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 10 : 2;
+    if (e.key === 'ArrowLeft') setSplit((s) => Math.max(0, s - step));
+    else if (e.key === 'ArrowRight') setSplit((s) => Math.min(100, s + step));
+    else return;
+    e.preventDefault();
+  };
+
+  return (
+    <div className="w-full flex flex-col">
+      <div className="flex flex-wrap items-center gap-1 px-3 py-2 bg-zinc-950 border-b border-zinc-800">
+        {MODES.map((m) => (
+          <button
+            key={m.id}
+            onClick={() => onModeChange(m.id)}
+            className={`flex items-center gap-1 px-2 py-1 rounded-md text-[11px] font-bold uppercase ${
+              mode === m.id ? 'bg-lime-500/20 text-lime-300' : 'text-zinc-500 hover:text-zinc-300'
+            }`}
+          >
+            {m.icon} {m.label}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-1">
+          {(['gif', 'webm'] as RevealFormat[]).map((format) => (
+            <button
+              key={format}
+              onClick={() => onExport(format)}
+              disabled={exporting !== null || !canExportReveal(format)}
+              title={
+                canExportReveal(format) ? `Download a before→after reveal as ${format.toUpperCase()}` : "This browser can't record video"
+              }
+              className="flex items-center gap-1 px-2 py-1 rounded-md text-[11px] font-bold uppercase border border-zinc-700 text-zinc-300 hover:border-lime-500/50 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Film className="w-3 h-3" />
+              {exporting === format ? 'Rendering…' : format}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center bg-black">
+        {mode === 'single' && <img src={after} alt="Zombie Car" className={`${imageClass} shadow-2xl`} />}
+
+        {mode === 'slider' && (
+          <div
+            ref={frameRef}
+            className="relative select-none touch-none cursor-ew-resize"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              splitAt(e.clientX);
+            }}
+            onPointerMove={(e) => {
+              if (e.currentTarget.hasPointerCapture(e.pointerId)) splitAt(e.clientX);
+            }}
+          >
+            <img src={after} alt="Zombie Car" className={imageClass} draggable={false} />
+            <img
+              src={before}
+              alt="Original photo"
+              className="absolute inset-0 w-full h-full object-cover"
+              style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+              draggable={false}
+            />
+            <div
+              role="slider"
+              tabIndex={0}
+              aria-label="Before and after split"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(split)}
+              onKeyDown={onSliderKey}
+              className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-lime-400 shadow-[0_0_12px_rgba(163,230,53,0.8)] focus:outline-none"
+              style={{ left: `${split}%` }}
+            >
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-lime-400 border-2 border-black flex items-center justify-center text-black text-xs font-bold">
+                ⇔
+              </div>
+            </div>
+            <Label side="left">Before</Label>
+            <Label side="right">After</Label>
+          </div>
+        )}
+
+        {mode === 'hold' && (
+          <div
+            className="relative select-none touch-none cursor-pointer"
+            onPointerDown={() => setHolding(true)}
+            onPointerUp={() => setHolding(false)}
+            onPointerLeave={() => setHolding(false)}
+            onPointerCancel={() => setHolding(false)}
+            onKeyDown={(e) => {
+              if (e.key === ' ') {
+                e.preventDefault();
+                setHolding(true);
+              }
+            }}
+            onKeyUp={(e) => {
+              if (e.key === ' ') setHolding(false);
+            }}
+            tabIndex={0}
+            aria-label="Hold to see the original photo"
+          >
+            <img src={holding ? before : after} alt={holding ? 'Original photo' : 'Zombie Car'} className={imageClass} draggable={false} />
+            <Label side="left">{holding ? 'Before' : 'After · hold to compare'}</Label>
+          </div>
+        )}
+
+        {mode === 'side' && (
+          <div className="grid grid-cols-2 gap-1 w-full">
+            <div className="relative">
+              <img src={before} alt="Original photo" className={imageClass} />
+              <Label side="left">Before</Label>
+            </div>
+            <div className="relative">
+              <img src={after} alt="Zombie Car" className={imageClass} />
+              <Label side="left">After</Label>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
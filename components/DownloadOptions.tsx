@@ -0,0 +1,76 @@
+import React from 'react';
+import { OutputImageType } from '../services/imagePreprocess';
+import {
+  defaultWatermark,
+  DOWNLOAD_FORMATS,
+  DownloadSettings,
+  isLossy,
+  WATERMARK_MAX_LENGTH,
+} from '../services/imageExport';
+
+interface DownloadOptionsProps {
+  settings: DownloadSettings;
+  onChange: (settings: DownloadSettings) => void;
+  commanderName: string;
+}
+
+const controlClass =
+  'bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-lime-500/50';
+
+export const DownloadOptions: React.FC<DownloadOptionsProps> = ({ settings, onChange, commanderName }) => {
+  const update = <K extends keyof DownloadSettings>(key: K, value: DownloadSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  return (
+    <div className="px-4 py-3 bg-zinc-950/60 border-t border-zinc-800 flex flex-wrap items-center gap-4 text-[11px] text-zinc-400">
+      <label className="flex items-center gap-2">
+        Format
+        <select
+          value={settings.format}
+          onChange={(e) => update('format', e.target.value as OutputImageType)}
+          className={controlClass}
+        >
+          {(Object.keys(DOWNLOAD_FORMATS) as OutputImageType[]).map((format) => (
+            <option key={format} value={format}>
+              {DOWNLOAD_FORMATS[format]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className={`flex items-center gap-2 ${isLossy(settings.format) ? '' : 'opacity-40'}`}>
+        Quality
+        <input
+          type="range"
+          min={0.5}
+          max={1}
+          step={0.01}
+          value={settings.quality}
+          onChange={(e) => update('quality', Number(e.target.value))}
+          disabled={!isLossy(settings.format)}
+          className="accent-lime-500 w-24"
+        />
+        <span className="font-mono w-8">{Math.round(settings.quality * 100)}%</span>
+      </label>
+
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.watermark}
+          onChange={(e) => update('watermark', e.target.checked)}
+          className="accent-lime-500"
+        />
+        Watermark
+      </label>
+      {settings.watermark && (
+        <input
+          value={settings.watermarkText}
+          onChange={(e) => update('watermarkText', e.target.value)}
+          maxLength={WATERMARK_MAX_LENGTH}
+          placeholder={defaultWatermark(commanderName)}
+          className={`${controlClass} flex-1 min-w-[160px]`}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from "react";
+import { PhaseType } from "../services/driveDirector";
+
+export interface DriveHudValues {
+  speed: number;
+  health: number;
+  score: number;
+  /** Null when the ride has no gun. */
+  ammo: number | null;
+  shield: number;
+  nitro: boolean;
+  slimed: boolean;
+  wave: number;
+  phase: PhaseType;
+}
+
+const PHASE_LABELS: Record<PhaseType, (wave: number) => string> = {
+  wave: (wave) => `Wave ${wave}`,
+  breather: () => "Breather",
+  boss: (wave) => `Wave ${wave} · BOSS`,
+};
+
+export const DriveHud: React.FC<DriveHudValues> = ({
+  speed,
+  health,
+  score,
+  ammo,
+  shield,
+  nitro,
+  slimed,
+  wave,
+  phase,
+}) => (
+  <div className="px-4 py-2 flex flex-wrap items-center justify-between gap-x-4 gap-y-1 text-xs">
+    <div>
+      <span className="text-slate-400 mr-1">Speed:</span>
+      <span className={`font-semibold ${nitro ? "text-orange-400" : ""}`}>
+        {speed} km/h{nitro && " NITRO"}
+      </span>
+      {slimed && <span className="ml-1 text-lime-400">SLIMED</span>}
+    </div>
+    <div
+      className={`font-semibold ${phase === "boss" ? "text-red-400" : "text-emerald-400"}`}
+    >
+      {PHASE_LABELS[phase](wave)}
+    </div>
+    <div>
+      <span className="text-slate-400 mr-1">Health:</span>
+      <span className="font-semibold">{health}</span>
+    </div>
+    {ammo !== null && (
+      <div>
+        <span className="text-slate-400 mr-1">Ammo:</span>
+        <span className={`font-semibold ${ammo === 0 ? "text-red-400" : ""}`}>
+          {ammo}
+        </span>
+      </div>
+    )}
+    {shield > 0 && (
+      <div>
+        <span className="text-slate-400 mr-1">Shield:</span>
+        <span className="font-semibold text-sky-300">{shield}</span>
+      </div>
+    )}
+    <div>
+      <span className="text-slate-400 mr-1">Score:</span>
+      <span className="font-semibold">{score}</span>
+    </div>
+  </div>
+);
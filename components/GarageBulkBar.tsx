@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Archive, CheckSquare, FileDown, Tag, Trash2, X } from 'lucide-react';
+import { TAG_MAX_LENGTH } from '../services/garageFilters';
+
+interface GarageBulkBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  busy: boolean;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onDelete: () => void;
+  onTag: (tag: string) => void;
+  onExport: () => void;
+  onDownloadZip: () => void;
+  onDone: () => void;
+}
+
+const actionClass =
+  'flex items-center gap-1 px-2 py-1.5 rounded-md text-[11px] font-bold uppercase border disabled:opacity-40 disabled:cursor-not-allowed';
+
+export const GarageBulkBar: React.FC<GarageBulkBarProps> = ({
+  selectedCount,
+  visibleCount,
+  busy,
+  onSelectAll,
+  onClearSelection,
+  onDelete,
+  onTag,
+  onExport,
+  onDownloadZip,
+  onDone,
+}) => {
+  const [tag, setTag] = useState('');
+  const none = selectedCount === 0 || busy;
+
+  const submitTag = () => {
+    if (!tag.trim()) return;
+    onTag(tag);
+    setTag('');
+  };
+
+  return (
+    <div className="sticky top-16 z-20 mb-4 bg-zinc-950/95 border border-lime-500/30 rounded-xl p-3 flex flex-wrap items-center gap-2 backdrop-blur">
+      <span className="text-xs font-bold text-lime-400 mr-2">{selectedCount} selected</span>
+      <button
+        onClick={selectedCount === visibleCount ? onClearSelection : onSelectAll}
+        className={`${actionClass} bg-zinc-900 border-zinc-700 text-zinc-300 hover:border-zinc-500`}
+      >
+        <CheckSquare className="w-3 h-3" />
+        {selectedCount === visibleCount && visibleCount > 0 ? 'Select none' : 'Select all'}
+      </button>
+
+      <div className="flex items-center gap-1">
+        <input
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submitTag();
+          }}
+          maxLength={TAG_MAX_LENGTH}
+          placeholder="tag"
+          className="w-20 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1.5 text-[11px] text-zinc-300 focus:outline-none focus:border-lime-500/50"
+        />
+        <button
+          onClick={submitTag}
+          disabled={none || !tag.trim()}
+          className={`${actionClass} bg-zinc-900 border-zinc-700 text-zinc-300 hover:border-zinc-500`}
+        >
+          <Tag className="w-3 h-3" /> Tag
+        </button>
+      </div>
+
+      <button
+        onClick={onExport}
+        disabled={none}
+        className={`${actionClass} bg-zinc-900 border-zinc-700 text-zinc-300 hover:border-zinc-500`}
+      >
+        <FileDown className="w-3 h-3" /> Export
+      </button>
+      <button
+        onClick={onDownloadZip}
+        disabled={none}
+        className={`${actionClass} bg-zinc-900 border-zinc-700 text-zinc-300 hover:border-zinc-500`}
+      >
+        <Archive className="w-3 h-3" /> Zip images
+      </button>
+      <button
+        onClick={onDelete}
+        disabled={none}
+        className={`${actionClass} bg-red-950/40 border-red-800 text-red-300 hover:border-red-500`}
+      >
+        <Trash2 className="w-3 h-3" /> Delete
+      </button>
+
+      <button onClick={onDone} title="Leave select mode" className="ml-auto text-zinc-500 hover:text-zinc-300">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
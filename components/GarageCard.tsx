@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { Check, ChevronDown, ChevronUp, GitBranch, Pencil, Save, Star, Trophy, X } from 'lucide-react';
+import { RideStats, ZombieRide } from '../types';
+import { formatBytes } from '../services/garageStore';
+import { STAT_LABELS, STAT_MAX } from '../services/rideStats';
+import { normalizeTag, TAG_MAX_LENGTH } from '../services/garageFilters';
+
+/** A stored ride plus an object URL for its image blob. */
+export type GarageEntry = ZombieRide & { imageUrl: string };
+
+export const RIDE_NAME_MAX_LENGTH = 40;
+
+/** The parts of a ride the garage lets the user change. */
+export type RidePatch = Partial<Pick<ZombieRide, 'name' | 'customDetails' | 'tags' | 'favourite'>>;
+
+export const rideTitle = (ride: ZombieRide, modeLabel: string) =>
+  ride.name || `${modeLabel} ride`;
+
+interface GarageCardProps {
+  ride: GarageEntry;
+  modeLabel: string;
+  /** Title of the ride this one was refined from, if it's still in the garage. */
+  parentTitle: string | null;
+  onLoad: () => void;
+  onDrive: () => void;
+  onDelete: () => void;
+  onUpdate: (patch: RidePatch) => void;
+  onTagClick: (tag: string) => void;
+  /** In multi-select mode the image toggles selection instead of loading. */
+  selectable?: boolean;
+  selected?: boolean;
+  onToggleSelect?: () => void;
+}
+
+const StatBars: React.FC<{ stats: RideStats }> = ({ stats }) => (
+  <dl className="grid grid-cols-[auto_1fr] items-center gap-x-2 gap-y-0.5 text-[10px]">
+    {(Object.keys(STAT_LABELS) as (keyof RideStats)[]).map((key) => (
+      <React.Fragment key={key}>
+        <dt className="text-zinc-500">{STAT_LABELS[key]}</dt>
+        <dd className="flex gap-px" title={`${stats[key]} / ${STAT_MAX}`}>
+          {Array.from({ length: STAT_MAX }, (_, i) => (
+            <span key={i} className={`h-1.5 flex-1 rounded-sm ${i < stats[key] ? 'bg-lime-500' : 'bg-zinc-800'}`} />
+          ))}
+        </dd>
+      </React.Fragment>
+    ))}
+  </dl>
+);
+
+const inputClass =
+  'w-full bg-zinc-950 border border-zinc-800 rounded-lg p-2 text-xs text-zinc-300 focus:outline-none focus:border-lime-500/50 placeholder:text-zinc-700';
+
+export const GarageCard: React.FC<GarageCardProps> = ({
+  ride,
+  modeLabel,
+  parentTitle,
+  onLoad,
+  onDrive,
+  onDelete,
+  onUpdate,
+  onTagClick,
+  selectable = false,
+  selected = false,
+  onToggleSelect,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(ride.name);
+  const [details, setDetails] = useState(ride.customDetails);
+  const [expanded, setExpanded] = useState(false);
+  const [newTag, setNewTag] = useState('');
+
+  const addTag = () => {
+    const tag = normalizeTag(newTag);
+    setNewTag('');
+    if (!tag || ride.tags.includes(tag)) return;
+    onUpdate({ tags: [...ride.tags, tag] });
+  };
+
+  const removeTag = (tag: string) => onUpdate({ tags: ride.tags.filter((t) => t !== tag) });
+
+  const startEditing = () => {
+    setName(ride.name);
+    setDetails(ride.customDetails);
+    setEditing(true);
+  };
+
+  const handleSave = () => {
+    onUpdate({ name: name.trim(), customDetails: details.trim() });
+    setEditing(false);
+  };
+
+  return (
+    <div
+      className={`bg-zinc-900/80 border rounded-xl p-3 flex flex-col gap-2 transition-colors ${
+        selected ? 'border-lime-500' : 'border-zinc-800 hover:border-lime-500/40'
+      }`}
+    >
+      <div
+        className="relative cursor-pointer group"
+        onClick={selectable ? onToggleSelect : onLoad}
+        title={selectable ? 'Select' : 'Load this ride'}
+      >
+        <img
+          src={ride.imageUrl}
+          alt={rideTitle(ride, modeLabel)}
+          className="rounded-lg border border-zinc-700 group-hover:border-lime-500/60 transition-colors"
+        />
+        {ride.sourceThumbnail && (
+          <img
+            src={ride.sourceThumbnail}
+            alt="Original photo"
+            title="Original photo"
+            className="absolute bottom-2 left-2 w-14 h-14 object-cover rounded-md border-2 border-zinc-900 shadow-lg"
+          />
+        )}
+        {selectable ? (
+          <div
+            className={`absolute top-2 left-2 w-6 h-6 rounded-md border-2 flex items-center justify-center ${
+              selected ? 'bg-lime-500 border-lime-500' : 'bg-black/60 border-zinc-400'
+            }`}
+          >
+            {selected && <Check className="w-4 h-4 text-black" />}
+          </div>
+        ) : (
+          <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 flex items-center justify-center text-[11px] text-lime-300 font-mono uppercase tracking-wide transition-opacity">
+            Load this ride
+          </div>
+        )}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onUpdate({ favourite: !ride.favourite });
+          }}
+          title={ride.favourite ? 'Remove from favourites' : 'Add to favourites'}
+          className="absolute top-2 right-2 p-1.5 rounded-full bg-black/60 hover:bg-black/80"
+        >
+          <Star className={`w-4 h-4 ${ride.favourite ? 'text-yellow-400 fill-yellow-400' : 'text-zinc-300'}`} />
+        </button>
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={RIDE_NAME_MAX_LENGTH}
+            placeholder="Name this ride"
+            className={inputClass}
+            autoFocus
+          />
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Special requests"
+            className={`${inputClass} h-16 resize-none`}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-1 px-2 py-1 bg-lime-600 hover:bg-lime-500 text-black rounded-md text-[11px] font-bold uppercase"
+            >
+              <Save className="w-3 h-3" /> Save
+            </button>
+            <button
+              onClick={() => setEditing(false)}
+              className="flex items-center gap-1 px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-[11px] font-bold uppercase"
+            >
+              <X className="w-3 h-3" /> Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-start justify-between gap-2">
+          <h3 className={`text-sm font-bold truncate ${ride.name ? 'text-white' : 'text-zinc-500 italic'}`}>
+            {rideTitle(ride, modeLabel)}
+          </h3>
+          <button onClick={startEditing} title="Edit name and details" className="text-zinc-500 hover:text-lime-400">
+            <Pencil className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      <div className="text-[11px] text-zinc-400 space-y-1">
+        <div>
+          Mode: <span className="uppercase text-zinc-200">{modeLabel}</span>
+        </div>
+        <div>Saved: {new Date(ride.createdAt).toLocaleString()}</div>
+        {ride.bestDriveScore > 0 && (
+          <div className="flex items-center gap-1">
+            <Trophy className="w-3 h-3 text-yellow-500" />
+            Best drive: <span className="text-zinc-200">{ride.bestDriveScore}</span>
+          </div>
+        )}
+        {ride.parentId && (
+          <div className="flex items-center gap-1 text-zinc-500">
+            <GitBranch className="w-3 h-3" />
+            Refined from {parentTitle ?? 'a scrapped ride'}
+          </div>
+        )}
+        {!editing && ride.customDetails && <div className="text-zinc-300 line-clamp-2">“{ride.customDetails}”</div>}
+      </div>
+
+      <StatBars stats={ride.stats} />
+
+      <div className="flex flex-wrap items-center gap-1">
+        {ride.tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 text-[10px] bg-zinc-800 border border-zinc-700 rounded px-1.5 py-0.5 text-zinc-300"
+          >
+            <button onClick={() => onTagClick(tag)} title={`Show rides tagged ${tag}`} className="hover:text-lime-400">
+              #{tag}
+            </button>
+            <button onClick={() => removeTag(tag)} title="Remove tag" className="text-zinc-500 hover:text-red-400">
+              <X className="w-2.5 h-2.5" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addTag();
+          }}
+          onBlur={addTag}
+          maxLength={TAG_MAX_LENGTH}
+          placeholder="+ tag"
+          className="w-16 bg-transparent text-[10px] text-zinc-400 placeholder:text-zinc-600 focus:outline-none focus:w-24 transition-all"
+        />
+      </div>
+
+      <button
+        onClick={() => setExpanded((v) => !v)}
+        className="flex items-center gap-1 text-[10px] text-zinc-500 hover:text-zinc-300 uppercase tracking-widest self-start"
+      >
+        {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        Build sheet
+      </button>
+      {expanded && (
+        <dl className="text-[10px] text-zinc-400 bg-black/40 border border-zinc-800 rounded-md p-2 space-y-1">
+          <div>
+            <dt className="inline text-zinc-500">Model: </dt>
+            <dd className="inline font-mono">
+              {ride.model} ({ride.provider})
+            </dd>
+          </div>
+          {ride.attributes && (
+            <div>
+              <dt className="inline text-zinc-500">Fitted: </dt>
+              <dd className="inline font-mono">
+                {[
+                  `${ride.attributes.armour} armour`,
+                  `${ride.attributes.engine} engine`,
+                  ride.attributes.ram ? 'ram' : null,
+                  ...ride.attributes.weapons,
+                ]
+                  .filter(Boolean)
+                  .join(', ')}
+              </dd>
+            </div>
+          )}
+          <div>
+            <dt className="inline text-zinc-500">Size: </dt>
+            <dd className="inline font-mono">{formatBytes(ride.imageBytes)}</dd>
+          </div>
+          <div>
+            <dt className="text-zinc-500">Prompt:</dt>
+            <dd className="whitespace-pre-wrap font-mono max-h-32 overflow-y-auto">{ride.prompt || '—'}</dd>
+          </div>
+        </dl>
+      )}
+
+      <button
+        onClick={onDrive}
+        className="mt-1 self-stretch text-[11px] px-3 py-1 rounded-md bg-emerald-500 hover:bg-emerald-400 text-slate-950 font-semibold text-center"
+      >
+        Drive this ride
+      </button>
+
+      <button onClick={onDelete} className="mt-1 self-end text-[11px] text-red-400 hover:text-red-300">
+        Delete
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check, Trash2, X } from 'lucide-react';
+import { formatBytes, StorageReport } from '../services/garageStore';
+
+export interface EvictableRide {
+  id: string;
+  imageUrl: string;
+  label: string;
+  bytes: number;
+}
+
+interface GarageFullDialogProps {
+  rides: EvictableRide[];
+  /** Size of the ride waiting to be saved. */
+  neededBytes: number;
+  storage: StorageReport | null;
+  onEvict: (ids: string[]) => void;
+  onCancel: () => void;
+}
+
+export const GarageFullDialog: React.FC<GarageFullDialogProps> = ({
+  rides,
+  neededBytes,
+  storage,
+  onEvict,
+  onCancel,
+}) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const freed = rides.filter((r) => selected.has(r.id)).reduce((sum, r) => sum + r.bytes, 0);
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="bg-zinc-950 border border-orange-500/40 rounded-2xl p-5 w-full max-w-2xl max-h-[90vh] flex flex-col gap-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex gap-3">
+            <AlertTriangle className="w-6 h-6 text-orange-400 shrink-0" />
+            <div>
+              <h3 className="text-sm font-bold text-orange-300 uppercase tracking-widest">The garage is full</h3>
+              <p className="text-xs text-zinc-400 mt-1">
+                Your browser won't store another {formatBytes(neededBytes)} ride
+                {storage && ` (${formatBytes(storage.used)} of ${formatBytes(storage.quota)} used)`}. Pick rides
+                to scrap to make room, then we'll park the new one.
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} title="Close" className="text-zinc-500 hover:text-zinc-300">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {rides.length === 0 ? (
+          <p className="text-xs text-zinc-500">
+            There are no saved rides to scrap. Free up space used by other sites in your browser settings.
+          </p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 overflow-y-auto">
+            {rides.map((ride) => (
+              <button
+                key={ride.id}
+                onClick={() => toggle(ride.id)}
+                className={`relative rounded-lg overflow-hidden border-2 text-left ${
+                  selected.has(ride.id) ? 'border-red-500' : 'border-zinc-800 hover:border-zinc-600'
+                }`}
+              >
+                <img src={ride.imageUrl} alt={ride.label} className="w-full aspect-square object-cover" />
+                <div className="absolute bottom-0 inset-x-0 bg-black/70 px-1 py-0.5 text-[9px] text-zinc-300 truncate">
+                  {ride.label} · {formatBytes(ride.bytes)}
+                </div>
+                {selected.has(ride.id) && (
+                  <div className="absolute top-1 right-1 bg-red-500 rounded-full p-0.5">
+                    <Check className="w-3 h-3 text-white" />
+                  </div>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[11px] text-zinc-500">
+            {selected.size} selected · frees {formatBytes(freed)}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-xs font-bold uppercase"
+            >
+              Don't save
+            </button>
+            <button
+              onClick={() => onEvict([...selected])}
+              disabled={selected.size === 0}
+              className="flex items-center gap-1 px-3 py-1.5 bg-red-600 hover:bg-red-500 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-md text-xs font-bold uppercase"
+            >
+              <Trash2 className="w-3 h-3" /> Scrap & save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
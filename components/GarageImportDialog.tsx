@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { FileUp, X } from 'lucide-react';
+import { CLASH_POLICIES, ClashPolicy, ParsedArchive } from '../services/garageArchive';
+import { formatBytes } from '../services/garageStore';
+
+interface GarageImportDialogProps {
+  fileName: string;
+  archive: ParsedArchive;
+  /** Imported rides whose id is already in the garage. */
+  clashes: number;
+  busy: boolean;
+  onImport: (policy: ClashPolicy) => void;
+  onCancel: () => void;
+}
+
+export const GarageImportDialog: React.FC<GarageImportDialogProps> = ({
+  fileName,
+  archive,
+  clashes,
+  busy,
+  onImport,
+  onCancel,
+}) => {
+  const [policy, setPolicy] = useState<ClashPolicy>('skip');
+  const bytes = archive.rides.reduce((sum, { image }) => sum + image.size, 0);
+  const exported = archive.exportedAt ? new Date(archive.exportedAt) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="bg-zinc-950 border border-lime-500/40 rounded-2xl p-5 w-full max-w-md flex flex-col gap-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex gap-3">
+            <FileUp className="w-6 h-6 text-lime-400 shrink-0" />
+            <div>
+              <h3 className="text-sm font-bold text-lime-300 uppercase tracking-widest">Import rides</h3>
+              <p className="text-xs text-zinc-400 mt-1 break-all">{fileName}</p>
+            </div>
+          </div>
+          <button onClick={onCancel} title="Close" className="text-zinc-500 hover:text-zinc-300">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <ul className="text-xs text-zinc-300 space-y-1">
+          <li>
+            {archive.rides.length} rides · {formatBytes(bytes)}
+          </li>
+          {exported && !Number.isNaN(exported.getTime()) && <li>Exported {exported.toLocaleString()}</li>}
+          {archive.version < 2 && <li className="text-zinc-500">Older export format, converted on import.</li>}
+          {archive.invalid > 0 && (
+            <li className="text-orange-400">
+              {archive.invalid} {archive.invalid === 1 ? 'ride is' : 'rides are'} damaged and will be left out.
+            </li>
+          )}
+        </ul>
+
+        {clashes > 0 && (
+          <fieldset className="space-y-2">
+            <legend className="text-xs text-zinc-400 mb-2">
+              {clashes} {clashes === 1 ? 'ride is' : 'rides are'} already in the garage:
+            </legend>
+            {(Object.keys(CLASH_POLICIES) as ClashPolicy[]).map((p) => (
+              <label key={p} className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+                <input
+                  type="radio"
+                  name="clash-policy"
+                  checked={policy === p}
+                  onChange={() => setPolicy(p)}
+                  className="accent-lime-500"
+                />
+                {CLASH_POLICIES[p]}
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-xs font-bold uppercase"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(policy)}
+            disabled={busy || archive.rides.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 bg-lime-600 hover:bg-lime-500 disabled:opacity-40 disabled:cursor-not-allowed text-black rounded-md text-xs font-bold uppercase"
+          >
+            <FileUp className="w-3 h-3" /> {busy ? 'Importing…' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Search, Star, X } from 'lucide-react';
+import { MutationMode } from '../types';
+import { DEFAULT_FILTERS, GARAGE_SORTS, GarageFilters, GarageSort, isFiltering } from '../services/garageFilters';
+
+interface GarageToolbarProps {
+  filters: GarageFilters;
+  onChange: (filters: GarageFilters) => void;
+  modes: MutationMode[];
+  tags: string[];
+  shown: number;
+  total: number;
+}
+
+const controlClass =
+  'bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-lime-500/50';
+
+export const GarageToolbar: React.FC<GarageToolbarProps> = ({ filters, onChange, modes, tags, shown, total }) => {
+  const update = <K extends keyof GarageFilters>(key: K, value: GarageFilters[K]) =>
+    onChange({ ...filters, [key]: value });
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <div className="relative flex-1 min-w-[180px]">
+          <Search className="w-3 h-3 text-zinc-500 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            value={filters.query}
+            onChange={(e) => update('query', e.target.value)}
+            placeholder="Search names and prompts"
+            className={`${controlClass} w-full pl-7`}
+          />
+        </div>
+        <select
+          value={filters.sort}
+          onChange={(e) => update('sort', e.target.value as GarageSort)}
+          className={controlClass}
+          title="Sort"
+        >
+          {(Object.keys(GARAGE_SORTS) as GarageSort[]).map((sort) => (
+            <option key={sort} value={sort}>
+              {GARAGE_SORTS[sort]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => update('favouritesOnly', !filters.favouritesOnly)}
+          title="Favourites only"
+          className={`${controlClass} flex items-center gap-1 ${
+            filters.favouritesOnly ? 'border-yellow-500/60 text-yellow-400' : ''
+          }`}
+        >
+          <Star className={`w-3 h-3 ${filters.favouritesOnly ? 'fill-yellow-400' : ''}`} />
+          Favourites
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filters.modeId ?? ''}
+          onChange={(e) => update('modeId', e.target.value || null)}
+          className={controlClass}
+          title="Mode"
+        >
+          <option value="">All modes</option>
+          {modes.map((m) => (
+            <option key={m.id} value={m.id}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.tag ?? ''}
+          onChange={(e) => update('tag', e.target.value || null)}
+          className={controlClass}
+          title="Tag"
+          disabled={tags.length === 0 && filters.tag === null}
+        >
+          <option value="">All tags</option>
+          {tags.map((tag) => (
+            <option key={tag} value={tag}>
+              #{tag}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-[11px] text-zinc-500">
+          From
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => update('from', e.target.value)}
+            className={controlClass}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-[11px] text-zinc-500">
+          To
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => update('to', e.target.value)}
+            className={controlClass}
+          />
+        </label>
+        {isFiltering(filters) && (
+          <button
+            onClick={() => onChange({ ...DEFAULT_FILTERS, sort: filters.sort })}
+            className="flex items-center gap-1 text-[11px] text-zinc-500 hover:text-zinc-300"
+          >
+            <X className="w-3 h-3" /> Clear filters
+          </button>
+        )}
+        <span className="ml-auto text-[11px] text-zinc-500 font-mono">
+          {shown} of {total}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { XCircle } from 'lucide-react';
+import { LoadingState } from '../types';
+import { isBusy, PROGRESS_PHASES } from '../services/generationLifecycle';
+
+interface GenerationStatusProps {
+  state: LoadingState;
+  /** Variants still running in the comparison grid. */
+  pendingVariants: number;
+  onCancel: () => void;
+}
+
+export const GenerationStatus: React.FC<GenerationStatusProps> = ({
+  state,
+  pendingVariants,
+  onCancel,
+}) => {
+  const busy = isBusy(state);
+
+  if (!busy && pendingVariants === 0) {
+    return state.phase === 'cancelled' ? (
+      <p className="text-center text-xs text-zinc-500 font-mono uppercase tracking-widest">
+        {state.message}
+      </p>
+    ) : null;
+  }
+
+  const stepIndex = PROGRESS_PHASES.indexOf(state.phase);
+  const stepShare = 1 / PROGRESS_PHASES.length;
+  const percent = busy
+    ? Math.round(
+        (stepIndex + (state.phase === 'uploading' ? state.progress ?? 0 : 0.5)) *
+          stepShare *
+          100
+      )
+    : 50;
+
+  return (
+    <div className="text-center bg-black/50 p-4 rounded-lg border border-lime-500/20 space-y-3">
+      <p className="text-xs text-lime-400 font-mono animate-pulse uppercase tracking-widest">
+        {busy
+          ? state.message
+          : `Mutating ${pendingVariants} variant${pendingVariants === 1 ? '' : 's'}...`}
+      </p>
+
+      {busy && (
+        <ol className="flex justify-between text-[9px] font-mono uppercase tracking-wider">
+          {PROGRESS_PHASES.map((phase, i) => (
+            <li
+              key={phase}
+              className={
+                i < stepIndex
+                  ? 'text-lime-700'
+                  : i === stepIndex
+                    ? 'text-lime-400'
+                    : 'text-zinc-600'
+              }
+            >
+              {phase}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="w-full bg-zinc-800 h-1.5 rounded-full overflow-hidden">
+        <div
+          className={`h-full bg-lime-500 shadow-[0_0_10px_lime] transition-all duration-500 ${
+            busy ? '' : 'animate-pulse'
+          }`}
+          style={{ width: `${percent}%` }}
+        ></div>
+      </div>
+
+      <button
+        onClick={onCancel}
+        className="inline-flex items-center gap-1 text-[11px] text-zinc-400 hover:text-red-400 uppercase font-bold"
+      >
+        <XCircle className="w-4 h-4" /> Cancel
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, RotateCcw, RotateCw, Crosshair, Check, X, Scan } from 'lucide-react';
+import {
+  applyAspect,
+  ASPECT_PRESETS,
+  centredCrop,
+  cropImage,
+  CropCorner,
+  CropRect,
+  FULL_CROP,
+  moveCrop,
+  resizeCrop,
+  rotateImage,
+} from '../services/imageCrop';
+
+interface ImageCropperProps {
+  image: string;
+  onConfirm: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+type Drag =
+  | { kind: 'move'; startX: number; startY: number; startRect: CropRect }
+  | { kind: 'resize'; corner: CropCorner };
+
+const CORNERS: CropCorner[] = ['nw', 'ne', 'sw', 'se'];
+
+const CORNER_CLASSES: Record<CropCorner, string> = {
+  nw: '-left-2 -top-2 cursor-nwse-resize',
+  ne: '-right-2 -top-2 cursor-nesw-resize',
+  sw: '-left-2 -bottom-2 cursor-nesw-resize',
+  se: '-right-2 -bottom-2 cursor-nwse-resize',
+};
+
+// How much of the frame the "centre the vehicle" crop leaves around the car.
+const VEHICLE_FILL = 0.8;
+
+export const ImageCropper: React.FC<ImageCropperProps> = ({ image, onConfirm, onCancel }) => {
+  const [working, setWorking] = useState(image);
+  const [quarterTurns, setQuarterTurns] = useState(0);
+  const [imageAspect, setImageAspect] = useState(1);
+  const [aspectId, setAspectId] = useState('free');
+  const [crop, setCrop] = useState<CropRect>(FULL_CROP);
+  const [showGuide, setShowGuide] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const frameRef = useRef<HTMLDivElement | null>(null);
+
+  const ratio = ASPECT_PRESETS.find((p) => p.id === aspectId)?.ratio ?? null;
+
+  // Rotation re-renders the working image; the crop starts over on it.
+  useEffect(() => {
+    let cancelled = false;
+    setIsBusy(true);
+    setError(null);
+    rotateImage(image, quarterTurns)
+      .then((rotated) => {
+        if (!cancelled) setWorking(rotated);
+      })
+      .catch((err) => {
+        console.error('Image rotation failed:', err);
+        if (!cancelled) setError('Could not rotate that photo. Try again or pick a different one.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsBusy(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [image, quarterTurns]);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    const aspect = naturalWidth / naturalHeight;
+    setImageAspect(aspect);
+    setCrop(centredCrop(aspect, ratio));
+  };
+
+  const toFraction = (clientX: number, clientY: number) => {
+    const box = frameRef.current?.getBoundingClientRect();
+    if (!box) return { x: 0, y: 0 };
+    return {
+      x: Math.max(0, Math.min(1, (clientX - box.left) / box.width)),
+      y: Math.max(0, Math.min(1, (clientY - box.top) / box.height)),
+    };
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const p = toFraction(e.clientX, e.clientY);
+      if (drag.kind === 'move') {
+        setCrop(moveCrop(drag.startRect, p.x - drag.startX, p.y - drag.startY));
+      } else {
+        setCrop((prev) => resizeCrop(prev, drag.corner, p.x, p.y, ratio, imageAspect));
+      }
+    };
+    const handleUp = () => setDrag(null);
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, ratio, imageAspect]);
+
+  const startMove = (e: React.PointerEvent) => {
+    e.preventDefault();
+    const p = toFraction(e.clientX, e.clientY);
+    setDrag({ kind: 'move', startX: p.x, startY: p.y, startRect: crop });
+  };
+
+  const startResize = (corner: CropCorner) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ kind: 'resize', corner });
+  };
+
+  const selectAspect = (id: string) => {
+    setAspectId(id);
+    const next = ASPECT_PRESETS.find((p) => p.id === id)?.ratio ?? null;
+    setCrop((prev) => applyAspect(prev, next, imageAspect));
+  };
+
+  const handleConfirm = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      onConfirm(await cropImage(working, crop));
+    } catch (err) {
+      console.error('Image crop failed:', err);
+      setError('Could not crop that photo. Try again or pick a different one.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const pct = (v: number) => `${v * 100}%`;
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex justify-center bg-black rounded-lg border border-zinc-700 p-2 select-none overflow-hidden">
+        <div ref={frameRef} className="relative inline-block touch-none">
+          <img
+            src={working}
+            alt="Crop preview"
+            onLoad={handleImageLoad}
+            draggable={false}
+            className="block max-h-72 max-w-full"
+          />
+          {/* Dim everything outside the crop */}
+          <div
+            className="absolute border-2 border-lime-400 cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.6)]"
+            style={{
+              left: pct(crop.x),
+              top: pct(crop.y),
+              width: pct(crop.width),
+              height: pct(crop.height),
+            }}
+            onPointerDown={startMove}
+          >
+            {showGuide && (
+              <div className="absolute inset-0 pointer-events-none">
+                <div className="absolute left-1/3 top-0 bottom-0 border-l border-lime-400/30" />
+                <div className="absolute left-2/3 top-0 bottom-0 border-l border-lime-400/30" />
+                <div className="absolute top-1/3 left-0 right-0 border-t border-lime-400/30" />
+                <div className="absolute top-2/3 left-0 right-0 border-t border-lime-400/30" />
+                <div className="absolute left-[15%] right-[15%] top-[30%] bottom-[20%] border-2 border-dashed border-orange-400/80 rounded-[40%_40%_12%_12%] flex items-end justify-center">
+                  <span className="mb-1 text-[9px] font-mono uppercase tracking-widest text-orange-300 bg-black/60 px-1 rounded">
+                    Vehicle here
+                  </span>
+                </div>
+              </div>
+            )}
+            {CORNERS.map((corner) => (
+              <div
+                key={corner}
+                onPointerDown={startResize(corner)}
+                className={`absolute w-4 h-4 bg-lime-400 border border-black rounded-sm ${CORNER_CLASSES[corner]}`}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {ASPECT_PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => selectAspect(preset.id)}
+            className={`px-2 py-1 rounded-md border text-[11px] font-bold ${
+              aspectId === preset.id
+                ? 'bg-lime-950/40 border-lime-500 text-lime-400'
+                : 'bg-zinc-800/50 border-zinc-700 text-zinc-400 hover:border-zinc-500'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+        <div className="flex-1" />
+        <button
+          onClick={() => setQuarterTurns((t) => t - 1)}
+          title="Rotate left"
+          className="p-1.5 rounded-md bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700"
+        >
+          <RotateCcw className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setQuarterTurns((t) => t + 1)}
+          title="Rotate right"
+          className="p-1.5 rounded-md bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700"
+        >
+          <RotateCw className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-orange-500 text-sm bg-orange-500/10 p-2 rounded border border-orange-500/20">
+          <AlertTriangle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setCrop(centredCrop(imageAspect, ratio, VEHICLE_FILL))}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-zinc-800 border border-zinc-700 text-xs text-zinc-200 hover:border-orange-500/60"
+        >
+          <Crosshair className="w-4 h-4 text-orange-400" /> Centre the vehicle
+        </button>
+        <button
+          onClick={() => setShowGuide((v) => !v)}
+          className={`flex items-center gap-1 px-3 py-1.5 rounded-md border text-xs ${
+            showGuide
+              ? 'bg-orange-950/40 border-orange-500/60 text-orange-300'
+              : 'bg-zinc-800 border-zinc-700 text-zinc-400'
+          }`}
+        >
+          <Scan className="w-4 h-4" /> Framing guide
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-zinc-800 border border-zinc-700 text-xs text-zinc-300 hover:bg-zinc-700"
+        >
+          <X className="w-4 h-4" /> Cancel
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={isBusy}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-lime-600 hover:bg-lime-500 border border-lime-400 text-xs text-black font-bold uppercase disabled:opacity-50"
+        >
+          <Check className="w-4 h-4" /> Use this framing
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,53 +1,127 @@
-import React, { useCallback, useState } from 'react';
-import { Upload, Image as ImageIcon, AlertTriangle } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Upload, Image as ImageIcon, AlertTriangle, Loader2, Crop, Camera } from 'lucide-react';
+import { ImageCropper } from './ImageCropper';
+import { CameraCapture } from './CameraCapture';
+import {
+  ImagePreprocessError,
+  PreprocessOptions,
+  preprocessImage,
+} from '../services/imagePreprocess';
 
 interface ImageUploaderProps {
   onImageSelect: (base64: string) => void;
   currentImage: string | null;
+  /** Overrides for the resize / re-encode step (longest edge, format, quality). */
+  preprocess?: Partial<PreprocessOptions>;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, currentImage }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, currentImage, preprocess }) => {
   const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  // Photo waiting in the crop tool; onImageSelect only fires on confirm.
+  const [pendingImage, setPendingImage] = useState<string | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Every input – picker, camera, drop, paste – funnels through here so they
+  // all get the same validation, preprocessing and crop step.
+  const processFile = useCallback(async (file: File) => {
+    setIsCameraOpen(false);
+    setError(null);
+    setIsProcessing(true);
+    try {
+      const prepared = await preprocessImage(file, preprocess);
+      setPendingImage(prepared.dataUrl);
+    } catch (err) {
+      console.error('Image preprocessing failed:', err);
+      setError(
+        err instanceof ImagePreprocessError
+          ? err.message
+          : 'Could not prepare that photo. Try a different one.'
+      );
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [preprocess]);
 
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file) return;
+    // Let the same file be picked again after an error.
+    event.target.value = '';
+    if (file) processFile(file);
+  }, [processFile]);
 
-    if (!file.type.startsWith('image/')) {
-      setError('Please upload a valid image file (JPG, PNG, WebP).');
-      return;
-    }
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  }, []);
 
-    if (file.size > 5 * 1024 * 1024) {
-      setError('File size too large. Please upload an image under 5MB.');
-      return;
-    }
+  const handleDrop = useCallback((event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files?.[0];
+    if (file) processFile(file);
+  }, [processFile]);
 
-    setError(null);
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      onImageSelect(base64String);
+  // Paste an image from anywhere on the page. Plain-text pastes into the
+  // text boxes are left alone.
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const item = Array.from(event.clipboardData?.items ?? []).find(
+        (i) => i.kind === 'file' && i.type.startsWith('image/')
+      );
+      const file = item?.getAsFile();
+      if (!file) return;
+      event.preventDefault();
+      processFile(file);
     };
-    reader.readAsDataURL(file);
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [processFile]);
+
+  const handleCropConfirm = useCallback((dataUrl: string) => {
+    setPendingImage(null);
+    onImageSelect(dataUrl);
   }, [onImageSelect]);
 
   return (
     <div className="w-full">
-      <div className="relative group">
-        {!currentImage ? (
+      <div
+        className={`relative group rounded-lg ${isDragging ? 'ring-2 ring-lime-500 ring-offset-2 ring-offset-black' : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        {isCameraOpen ? (
+          <CameraCapture onCapture={processFile} onClose={() => setIsCameraOpen(false)} />
+        ) : pendingImage ? (
+          <ImageCropper
+            image={pendingImage}
+            onConfirm={handleCropConfirm}
+            onCancel={() => setPendingImage(null)}
+          />
+        ) : isProcessing ? (
+          <div className="flex flex-col items-center justify-center w-full h-64 border-2 border-dashed border-lime-500/40 rounded-lg bg-zinc-900/50 text-lime-500">
+            <Loader2 className="w-8 h-8 animate-spin mb-3" />
+            <p className="text-xs font-mono uppercase tracking-widest">Prepping photo...</p>
+          </div>
+        ) : !currentImage ? (
           <label className="flex flex-col items-center justify-center w-full h-64 border-2 border-dashed border-zinc-700 rounded-lg cursor-pointer bg-zinc-900/50 hover:bg-zinc-800/50 hover:border-lime-500/50 transition-all duration-300">
             <div className="flex flex-col items-center justify-center pt-5 pb-6">
               <div className="p-4 bg-zinc-800 rounded-full mb-4 group-hover:bg-zinc-700 transition-colors">
                 <Upload className="w-8 h-8 text-lime-500" />
               </div>
-              <p className="mb-2 text-sm text-zinc-400 font-bold">CLICK TO UPLOAD RIDE</p>
-              <p className="text-xs text-zinc-500">PNG, JPG or WEBP (MAX 5MB)</p>
+              <p className="mb-2 text-sm text-zinc-400 font-bold">
+                {isDragging ? 'DROP IT IN THE GARAGE' : 'CLICK, DROP OR PASTE YOUR RIDE'}
+              </p>
+              <p className="text-xs text-zinc-500">PNG, JPG, WEBP or HEIC – phone photos welcome</p>
             </div>
             <input 
               type="file" 
               className="hidden" 
-              accept="image/*"
+              accept="image/*,.heic,.heif"
               onChange={handleFileChange} 
             />
           </label>
@@ -65,10 +139,17 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, cur
                  <input 
                   type="file" 
                   className="hidden" 
-                  accept="image/*"
+                  accept="image/*,.heic,.heif"
                   onChange={handleFileChange} 
                 />
                </label>
+               <button
+                 onClick={() => setPendingImage(currentImage)}
+                 className="ml-2 bg-black/80 text-white px-4 py-2 rounded-md border border-orange-500 hover:bg-orange-900/60 transition-colors flex items-center gap-2"
+               >
+                 <Crop className="w-4 h-4" />
+                 <span>Reframe</span>
+               </button>
             </div>
           </div>
         )}
@@ -79,6 +160,14 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, cur
           {error}
         </div>
       )}
+      {!isCameraOpen && !pendingImage && !isProcessing && (
+        <button
+          onClick={() => setIsCameraOpen(true)}
+          className="mt-3 w-full flex items-center justify-center gap-2 py-2 rounded-md bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 hover:border-lime-500/50 text-xs font-bold uppercase tracking-wider text-zinc-200"
+        >
+          <Camera className="w-4 h-4 text-lime-500" /> Snap it with the camera
+        </button>
+      )}
     </div>
   );
 };
\ No newline at end of file
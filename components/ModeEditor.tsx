@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Save, Trash2, X } from 'lucide-react';
+import { MutationMode } from '../types';
+import { MODE_FIELD_LIMITS, MODE_ICONS, parsePromptMode } from '../services/modeRegistry';
+import { ModeIcon } from './ModeIcon';
+
+interface ModeEditorProps {
+  mode: MutationMode;
+  isNew: boolean;
+  onSave: (mode: MutationMode) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full bg-zinc-950 border border-zinc-800 rounded-lg p-2 text-sm text-zinc-300 focus:outline-none focus:border-lime-500/50 placeholder:text-zinc-700';
+
+export const ModeEditor: React.FC<ModeEditorProps> = ({ mode, isNew, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<MutationMode>(mode);
+  const valid = parsePromptMode(draft) !== null;
+
+  const update = <K extends keyof MutationMode>(key: K, value: MutationMode[K]) =>
+    setDraft((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="bg-zinc-950/80 border border-lime-500/30 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-lime-400 uppercase tracking-widest">
+          {isNew ? 'New mutation mode' : `Edit ${mode.label}`}
+        </h4>
+        <button onClick={onClose} title="Close" className="text-zinc-500 hover:text-zinc-300">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <input
+        value={draft.label}
+        onChange={(e) => update('label', e.target.value)}
+        maxLength={MODE_FIELD_LIMITS.label}
+        placeholder="Name, e.g. Arctic Outpost"
+        className={inputClass}
+      />
+      <textarea
+        value={draft.styleGuide}
+        onChange={(e) => update('styleGuide', e.target.value)}
+        maxLength={MODE_FIELD_LIMITS.styleGuide}
+        placeholder="Style guide: the look, setting and mood. e.g. Frozen tundra, ice spikes, snow chains, blizzard."
+        className={`${inputClass} h-20 resize-none`}
+      />
+      <input
+        value={draft.masonAppearance}
+        onChange={(e) => update('masonAppearance', e.target.value)}
+        maxLength={MODE_FIELD_LIMITS.masonAppearance}
+        placeholder="How the commander's name appears, e.g. carved into the ice"
+        className={inputClass}
+      />
+      <input
+        value={draft.defaultDetails}
+        onChange={(e) => update('defaultDetails', e.target.value)}
+        maxLength={MODE_FIELD_LIMITS.defaultDetails}
+        placeholder="Default details when special requests are empty"
+        className={inputClass}
+      />
+
+      <div className="flex flex-wrap gap-1">
+        {MODE_ICONS.map((icon) => (
+          <button
+            key={icon}
+            onClick={() => update('icon', icon)}
+            title={icon}
+            className={`p-2 rounded-md border ${
+              draft.icon === icon
+                ? 'bg-lime-950/40 border-lime-500 text-lime-400'
+                : 'bg-zinc-800/50 border-zinc-700 text-zinc-400 hover:border-zinc-500'
+            }`}
+          >
+            <ModeIcon name={icon} className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2 justify-end">
+        {!isNew && (
+          <button
+            onClick={() => onDelete(mode.id)}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-zinc-800 border border-zinc-700 text-xs text-red-400 hover:text-red-300"
+          >
+            <Trash2 className="w-4 h-4" /> Delete
+          </button>
+        )}
+        <button
+          onClick={() => onSave({ ...draft, label: draft.label.trim() })}
+          disabled={!valid}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-lime-600 hover:bg-lime-500 border border-lime-400 text-xs text-black font-bold uppercase disabled:opacity-40"
+        >
+          <Save className="w-4 h-4" /> Save mode
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import {
+  Biohazard,
+  Car,
+  Flame,
+  Ghost,
+  LucideProps,
+  Radiation,
+  Shield,
+  Skull,
+  Snowflake,
+  SprayCan,
+  Zap,
+} from 'lucide-react';
+import { ModeIconName } from '../types';
+
+const ICONS: Record<ModeIconName, React.FC<LucideProps>> = {
+  Skull,
+  Biohazard,
+  Shield,
+  SprayCan,
+  Flame,
+  Snowflake,
+  Zap,
+  Radiation,
+  Ghost,
+  Car,
+};
+
+interface ModeIconProps extends LucideProps {
+  name: ModeIconName;
+}
+
+export const ModeIcon: React.FC<ModeIconProps> = ({ name, ...props }) => {
+  const Icon = ICONS[name] ?? Car;
+  return <Icon {...props} />;
+};
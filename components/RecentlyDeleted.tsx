@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, RotateCcw, Trash2 } from 'lucide-react';
+import { BIN_RETENTION_DAYS, daysLeftInBin } from '../services/garageBin';
+import { GarageEntry } from './GarageCard';
+
+interface RecentlyDeletedProps {
+  rides: GarageEntry[];
+  titleOf: (ride: GarageEntry) => string;
+  onRestore: (ids: string[]) => void;
+  onDeleteForever: (ids: string[]) => void;
+}
+
+export const RecentlyDeleted: React.FC<RecentlyDeletedProps> = ({ rides, titleOf, onRestore, onDeleteForever }) => {
+  const [open, setOpen] = useState(false);
+  if (rides.length === 0) return null;
+
+  return (
+    <div className="mt-6 border border-zinc-800 rounded-xl bg-zinc-950/50">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="w-full flex items-center justify-between px-4 py-2 text-xs text-zinc-400 hover:text-zinc-200"
+      >
+        <span className="flex items-center gap-2 uppercase tracking-widest font-bold">
+          <Trash2 className="w-3 h-3" /> Recently deleted ({rides.length})
+        </span>
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-[11px] text-zinc-500">
+              Deleted rides are removed for good after {BIN_RETENTION_DAYS} days.
+            </p>
+            <button
+              onClick={() => onDeleteForever(rides.map((r) => r.id))}
+              className="text-[11px] text-red-400 hover:text-red-300 uppercase font-bold"
+            >
+              Empty bin
+            </button>
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {rides.map((ride) => (
+              <div key={ride.id} className="bg-zinc-900 border border-zinc-800 rounded-lg p-2 space-y-1">
+                <img src={ride.imageUrl} alt={titleOf(ride)} className="w-full aspect-square object-cover rounded opacity-60" />
+                <p className="text-[10px] text-zinc-300 truncate">{titleOf(ride)}</p>
+                <p className="text-[10px] text-zinc-500">{daysLeftInBin(ride)} days left</p>
+                <div className="flex justify-between">
+                  <button
+                    onClick={() => onRestore([ride.id])}
+                    className="flex items-center gap-1 text-[10px] text-lime-400 hover:text-lime-300"
+                  >
+                    <RotateCcw className="w-3 h-3" /> Restore
+                  </button>
+                  <button
+                    onClick={() => onDeleteForever([ride.id])}
+                    title="Delete forever"
+                    className="text-zinc-500 hover:text-red-400"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Wrench, Undo2, Redo2 } from 'lucide-react';
+import { Button } from './Button';
+import { RefinementHistory } from '../types';
+import { MAX_INSTRUCTION_LENGTH } from '../services/prompts';
+
+interface RefinePanelProps {
+  history: RefinementHistory;
+  isRefining: boolean;
+  onRefine: (instruction: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+export const RefinePanel: React.FC<RefinePanelProps> = ({
+  history,
+  isRefining,
+  onRefine,
+  onUndo,
+  onRedo,
+  onJump,
+}) => {
+  const [instruction, setInstruction] = useState('');
+  const trimmed = instruction.trim();
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed || isRefining) return;
+    onRefine(trimmed);
+    setInstruction('');
+  };
+
+  return (
+    <div className="p-4 bg-zinc-950 border-t border-zinc-800 space-y-3">
+      <form onSubmit={submit} className="flex gap-2">
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          maxLength={MAX_INSTRUCTION_LENGTH}
+          placeholder='Refine: "add a snow plough", "make the name plate bigger"...'
+          className="flex-1 bg-zinc-900 border border-zinc-800 rounded-md px-3 py-2 text-sm text-zinc-300 focus:outline-none focus:border-lime-500/50 placeholder:text-zinc-700"
+        />
+        <Button
+          type="submit"
+          isLoading={isRefining}
+          disabled={!trimmed}
+          className="py-2 px-4 text-xs"
+        >
+          <Wrench className="w-4 h-4" /> Refine
+        </Button>
+      </form>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onUndo}
+          disabled={history.index <= 0 || isRefining}
+          title="Undo refinement"
+          className="p-1.5 rounded-md bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 disabled:opacity-30"
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={history.index >= history.steps.length - 1 || isRefining}
+          title="Redo refinement"
+          className="p-1.5 rounded-md bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 disabled:opacity-30"
+        >
+          <Redo2 className="w-4 h-4" />
+        </button>
+
+        <ol className="flex-1 flex gap-1 overflow-x-auto text-[10px] font-mono">
+          {history.steps.map((step, i) => (
+            <li key={step.id}>
+              <button
+                onClick={() => onJump(i)}
+                disabled={isRefining}
+                title={step.instruction ?? 'Original render'}
+                className={`whitespace-nowrap px-2 py-1 rounded border max-w-[160px] truncate ${
+                  i === history.index
+                    ? 'border-lime-500 text-lime-400 bg-lime-950/40'
+                    : i > history.index
+                      ? 'border-zinc-800 text-zinc-600'
+                      : 'border-zinc-700 text-zinc-400'
+                }`}
+              >
+                {i}. {step.instruction ?? 'Original'}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Pencil, Save, Shield, X } from 'lucide-react';
+import { CommanderProfile, MutationMode, SurvivorProfile } from '../types';
+import { COMMANDER_LIMITS, normalizeCommander, validateCommander } from '../services/commander';
+import { modeLabel } from '../services/modeRegistry';
+import { favouriteModeId, levelProgress, validateAvatar } from '../services/survivorProfile';
+
+interface SurvivorCardProps {
+  profile: SurvivorProfile;
+  modes: MutationMode[];
+  onSave: (commander: CommanderProfile, avatar: string) => void;
+}
+
+type Draft = CommanderProfile & { avatar: string };
+
+const inputClass =
+  'w-full bg-zinc-950 border border-zinc-800 rounded-lg p-2 text-sm text-zinc-300 focus:outline-none focus:border-lime-500/50 placeholder:text-zinc-700';
+
+const FIELDS: Array<{ key: keyof CommanderProfile; label: string; placeholder: string }> = [
+  { key: 'name', label: 'Name', placeholder: 'e.g. Mason' },
+  { key: 'callsign', label: 'Callsign', placeholder: 'e.g. Squad Leader' },
+  { key: 'baseName', label: 'Base', placeholder: 'e.g. Bunker Alpha' },
+];
+
+const formatDistance = (metres: number) =>
+  metres >= 1000 ? `${(metres / 1000).toFixed(1)} km` : `${Math.round(metres)} m`;
+
+const Stat: React.FC<{ label: string; value: string | number }> = ({ label, value }) => (
+  <div className="bg-zinc-950/60 border border-zinc-800 rounded-md px-2 py-1.5 min-w-0">
+    <p className="text-[9px] text-zinc-500 uppercase tracking-widest truncate">{label}</p>
+    <p className="text-sm font-bold text-zinc-200 truncate">{value}</p>
+  </div>
+);
+
+export const SurvivorCard: React.FC<SurvivorCardProps> = ({ profile, modes, onSave }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const { commander, stats } = profile;
+  const { level, current, needed } = levelProgress(stats.xp);
+  const favourite = favouriteModeId(stats);
+
+  const errors = draft ? validateCommander(draft) : {};
+  const avatarError = draft ? validateAvatar(draft.avatar) : null;
+  const valid = Object.keys(errors).length === 0 && !avatarError;
+
+  const handleSave = () => {
+    if (!draft || !valid) return;
+    const { avatar, ...rest } = draft;
+    onSave(normalizeCommander(rest), avatar);
+    setDraft(null);
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-zinc-900 to-black border-2 border-zinc-800 p-4 rounded-xl relative overflow-hidden group shadow-lg shadow-lime-900/10">
+      <div className="absolute top-0 right-0 p-2 opacity-10 group-hover:opacity-30 transition-opacity pointer-events-none">
+        <Shield className="w-32 h-32 text-lime-500 rotate-12" />
+      </div>
+      <div className="relative z-10">
+        <div className="flex items-center justify-between mb-4 border-b border-zinc-800 pb-2">
+          <span className="text-[10px] text-zinc-500 font-mono tracking-widest">ID: {profile.id}</span>
+          <div className="flex items-center gap-2">
+            <div className="flex gap-1">
+              <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></div>
+              <span className="text-[10px] text-red-500 font-bold">ACTIVE DUTY</span>
+            </div>
+            {!draft && (
+              <button
+                onClick={() => setDraft({ ...commander, avatar: profile.avatar })}
+                title="Edit profile"
+                className="text-zinc-500 hover:text-lime-400"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {draft ? (
+          <div className="space-y-2">
+            {FIELDS.map(({ key, label, placeholder }) => (
+              <div key={key}>
+                <label className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">{label}</label>
+                <input
+                  value={draft[key]}
+                  onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                  maxLength={COMMANDER_LIMITS[key].max}
+                  placeholder={placeholder}
+                  className={inputClass}
+                />
+                {errors[key] && <p className="text-[10px] text-red-400 mt-1">{errors[key]}</p>}
+              </div>
+            ))}
+            <div>
+              <label className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Avatar letter</label>
+              <input
+                value={draft.avatar}
+                onChange={(e) => setDraft({ ...draft, avatar: e.target.value.toUpperCase() })}
+                maxLength={1}
+                className={`${inputClass} w-12 text-center font-zombie text-lg`}
+              />
+              {avatarError && <p className="text-[10px] text-red-400 mt-1">{avatarError}</p>}
+            </div>
+            <div className="flex gap-2 pt-1">
+              <button
+                onClick={handleSave}
+                disabled={!valid}
+                className="flex items-center gap-1 px-3 py-1.5 bg-lime-600 hover:bg-lime-500 disabled:opacity-40 disabled:cursor-not-allowed text-black rounded-md text-xs font-bold uppercase"
+              >
+                <Save className="w-3 h-3" /> Save
+              </button>
+              <button
+                onClick={() => setDraft(null)}
+                className="flex items-center gap-1 px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-md text-xs font-bold uppercase"
+              >
+                <X className="w-3 h-3" /> Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-4">
+              <div className="w-20 h-20 rounded-lg bg-zinc-800 border-2 border-lime-600 flex items-center justify-center shrink-0 shadow-[0_0_15px_rgba(101,163,13,0.3)]">
+                <span className="font-zombie text-4xl text-lime-500">{profile.avatar}</span>
+              </div>
+              <div className="min-w-0 flex-1">
+                {commander.callsign && (
+                  <h3 className="text-lime-500 font-bold text-xs tracking-widest uppercase mb-1">{commander.callsign}</h3>
+                )}
+                <p className="text-2xl font-black text-white leading-none tracking-tight font-zombie uppercase break-words">
+                  Commander {commander.name}
+                </p>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  <span className="text-[10px] bg-lime-900/40 px-2 py-0.5 rounded text-lime-400 border border-lime-800">
+                    LVL {level}
+                  </span>
+                  {commander.baseName && (
+                    <span className="text-[10px] bg-zinc-800 px-2 py-0.5 rounded text-zinc-400 border border-zinc-700 uppercase">
+                      BASE: {commander.baseName}
+                    </span>
+                  )}
+                </div>
+                <div
+                  className="mt-2 h-1.5 bg-zinc-800 rounded-full overflow-hidden"
+                  title={`${current} / ${needed} XP to level ${level + 1}`}
+                >
+                  <div className="h-full bg-lime-500" style={{ width: `${(current / needed) * 100}%` }} />
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 mt-4">
+              <Stat label="Rides built" value={stats.ridesBuilt} />
+              <Stat label="Favourite" value={favourite ? modeLabel(modes, favourite) : '—'} />
+              <Stat label="Best drive" value={stats.bestDriveScore} />
+              <Stat label="Dodged" value={stats.zombiesDodged} />
+              <Stat label="Distance" value={formatDistance(stats.distanceDriven)} />
+              <Stat label="XP" value={stats.xp} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React, { useEffect, useRef } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  /** How long the toast stays up, in ms. */
+  duration?: number;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, duration = 8000 }) => {
+  // Re-rendering with a new callback shouldn't restart the countdown.
+  const onDismissRef = useRef(onDismiss);
+  onDismissRef.current = onDismiss;
+
+  useEffect(() => {
+    const timer = setTimeout(() => onDismissRef.current(), duration);
+    return () => clearTimeout(timer);
+  }, [message, duration]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 bg-zinc-900 border border-zinc-700 shadow-2xl rounded-xl px-4 py-3 flex items-center gap-4"
+    >
+      <span className="text-sm text-zinc-200">{message}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center gap-1 text-xs font-bold uppercase text-lime-400 hover:text-lime-300"
+      >
+        <Undo2 className="w-4 h-4" /> Undo
+      </button>
+      <button onClick={onDismiss} title="Dismiss" className="text-zinc-500 hover:text-zinc-300">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
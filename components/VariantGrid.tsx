@@ -0,0 +1,105 @@
+import React from 'react';
+import { Crown, RotateCcw, Save, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+import { GenerationVariant } from '../types';
+
+interface VariantGridProps {
+  variants: GenerationVariant[];
+  onPick: (id: string) => void;
+  onRetry: (id: string) => void;
+  onSave: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onDiscardAll: () => void;
+}
+
+export const VariantGrid: React.FC<VariantGridProps> = ({
+  variants,
+  onPick,
+  onRetry,
+  onSave,
+  onDiscard,
+  onDiscardAll,
+}) => {
+  const readyCount = variants.filter((v) => v.status === 'ready').length;
+
+  return (
+    <section className="mb-6 bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-zinc-400 uppercase tracking-widest">
+          Pick the winner ({readyCount}/{variants.length} ready)
+        </h3>
+        <button
+          onClick={onDiscardAll}
+          className="text-[11px] text-zinc-500 hover:text-red-400 uppercase"
+        >
+          Discard all
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {variants.map((variant, index) => (
+          <div
+            key={variant.id}
+            className="bg-black/60 border border-zinc-800 rounded-xl overflow-hidden flex flex-col"
+          >
+            <div className="aspect-square flex items-center justify-center bg-zinc-950 relative">
+              {variant.status === 'pending' && (
+                <div className="flex flex-col items-center gap-2 text-lime-500 font-mono text-[11px] uppercase">
+                  <Loader2 className="w-6 h-6 animate-spin" />
+                  #{index + 1} {variant.phase ?? 'queued'}
+                </div>
+              )}
+              {variant.status === 'failed' && (
+                <div className="flex flex-col items-center gap-2 text-orange-400 text-[11px] text-center px-3">
+                  <AlertTriangle className="w-6 h-6" />
+                  {variant.error}
+                </div>
+              )}
+              {variant.status === 'ready' && variant.imageUrl && (
+                <img
+                  src={variant.imageUrl}
+                  alt={`Variant ${index + 1}`}
+                  className="w-full h-full object-cover"
+                />
+              )}
+            </div>
+
+            <div className="p-2 flex gap-1 justify-between">
+              {variant.status === 'ready' ? (
+                <>
+                  <button
+                    onClick={() => onPick(variant.id)}
+                    className="flex-1 flex items-center justify-center gap-1 text-[11px] px-2 py-1 rounded-md bg-lime-600 hover:bg-lime-500 text-black font-bold uppercase"
+                  >
+                    <Crown className="w-3 h-3" /> Pick
+                  </button>
+                  <button
+                    onClick={() => onSave(variant.id)}
+                    title="Save to Garage"
+                    className="px-2 py-1 rounded-md bg-zinc-800 hover:bg-zinc-700 text-zinc-200 border border-zinc-700"
+                  >
+                    <Save className="w-3 h-3" />
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => onRetry(variant.id)}
+                  disabled={variant.status === 'pending'}
+                  className="flex-1 flex items-center justify-center gap-1 text-[11px] px-2 py-1 rounded-md bg-zinc-800 hover:bg-zinc-700 text-zinc-200 border border-zinc-700 disabled:opacity-40"
+                >
+                  <RotateCcw className="w-3 h-3" /> Retry
+                </button>
+              )}
+              <button
+                onClick={() => onDiscard(variant.id)}
+                title="Discard"
+                className="px-2 py-1 rounded-md bg-zinc-800 hover:bg-red-900/60 text-zinc-400 hover:text-red-300 border border-zinc-700"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
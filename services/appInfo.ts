@@ -0,0 +1,7 @@
+// Replaced at build time by vite.config.ts from package.json.
+declare const __APP_VERSION__: string;
+
+export const APP_NAME = "Mason's Zombie Ride Creator";
+
+export const APP_VERSION =
+  typeof __APP_VERSION__ === "string" ? __APP_VERSION__ : "dev";
@@ -0,0 +1,46 @@
+// Data URLs are what the providers and <img> tags pass around; blobs are what
+// we store and zip. These convert between the two.
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const res = await fetch(dataUrl);
+  return res.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () =>
+      reject(reader.error ?? new Error("Could not read image data."));
+    reader.readAsDataURL(blob);
+  });
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+export const extensionForMimeType = (mimeType: string) =>
+  EXTENSIONS[mimeType] ?? "bin";
+
+export const mimeTypeForExtension = (filename: string) => {
+  const ext = filename.split(".").pop()?.toLowerCase();
+  if (ext === "jpeg") return "image/jpeg";
+  const match = Object.entries(EXTENSIONS).find(([, e]) => e === ext);
+  return match ? match[0] : "application/octet-stream";
+};
+
+/** Saves a blob through a temporary link, like the Download button does. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before revoking.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,83 @@
+import { CommanderProfile } from "../types";
+import { slugify } from "./slug";
+
+// Shared with the /api route, which re-validates whatever the browser sends
+// before it goes anywhere near a prompt.
+
+export const DEFAULT_COMMANDER: CommanderProfile = {
+  name: "Mason",
+  callsign: "Squad Leader",
+  baseName: "Bunker Alpha",
+};
+
+export const COMMANDER_LIMITS: Record<
+  keyof CommanderProfile,
+  { min: number; max: number }
+> = {
+  name: { min: 2, max: 16 },
+  callsign: { min: 0, max: 24 },
+  baseName: { min: 0, max: 24 },
+};
+
+// Letters (any script), digits, spaces, hyphens, apostrophes and full stops.
+// Nothing that could read as an instruction or break out of a quoted string.
+const ALLOWED_CHARACTERS = /^[\p{L}\p{N} '.-]*$/u;
+
+export type CommanderErrors = Partial<Record<keyof CommanderProfile, string>>;
+
+const tidy = (value: string) => value.replace(/\s+/g, " ").trim();
+
+export const normalizeCommander = (
+  profile: CommanderProfile
+): CommanderProfile => ({
+  name: tidy(profile.name),
+  callsign: tidy(profile.callsign),
+  baseName: tidy(profile.baseName),
+});
+
+export const validateCommander = (
+  profile: CommanderProfile
+): CommanderErrors => {
+  const errors: CommanderErrors = {};
+  const normalized = normalizeCommander(profile);
+
+  for (const field of Object.keys(COMMANDER_LIMITS) as Array<
+    keyof CommanderProfile
+  >) {
+    const value = normalized[field];
+    const { min, max } = COMMANDER_LIMITS[field];
+    if (value.length < min) {
+      errors[field] = `Needs at least ${min} characters.`;
+    } else if (value.length > max) {
+      errors[field] = `Keep it to ${max} characters or fewer.`;
+    } else if (!ALLOWED_CHARACTERS.test(value)) {
+      errors[field] = "Letters, numbers, spaces, - ' and . only.";
+    }
+  }
+  return errors;
+};
+
+export const isValidCommander = (profile: CommanderProfile) =>
+  Object.keys(validateCommander(profile)).length === 0;
+
+/**
+ * Validates untrusted input (request bodies, storage). Returns null when it
+ * isn't a well-formed, valid profile.
+ */
+export const parseCommander = (value: unknown): CommanderProfile | null => {
+  if (!value || typeof value !== "object") return null;
+  const { name, callsign, baseName } = value as Record<string, unknown>;
+  if (
+    typeof name !== "string" ||
+    typeof callsign !== "string" ||
+    typeof baseName !== "string"
+  ) {
+    return null;
+  }
+  const profile = normalizeCommander({ name, callsign, baseName });
+  return isValidCommander(profile) ? profile : null;
+};
+
+/** "Mason" → "mason", for filenames. */
+export const commanderSlug = (profile: CommanderProfile) =>
+  slugify(profile.name, "commander");
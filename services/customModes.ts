@@ -0,0 +1,52 @@
+import { MutationMode } from "../types";
+import { BUILT_IN_MODES, MODE_ICONS, parsePromptMode } from "./modeRegistry";
+
+const STORAGE_KEY = "mason_custom_modes_v1";
+
+export const loadCustomModes = (): MutationMode[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return [];
+    const parsed: unknown = JSON.parse(saved);
+    if (!Array.isArray(parsed)) return [];
+
+    // Drop anything that no longer validates rather than failing the lot.
+    return parsed.flatMap((entry) => {
+      const prompt = parsePromptMode(entry);
+      if (!prompt) return [];
+      const icon = MODE_ICONS.includes(entry.icon) ? entry.icon : "Car";
+      return [{ ...prompt, icon, builtIn: false }];
+    });
+  } catch (e) {
+    console.warn("Could not load custom modes from localStorage", e);
+    return [];
+  }
+};
+
+export const saveCustomModes = (modes: MutationMode[]) => {
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(modes.filter((m) => !m.builtIn))
+    );
+  } catch (e) {
+    console.warn("Could not save custom modes", e);
+  }
+};
+
+export const createCustomModeId = () => `custom-${crypto.randomUUID()}`;
+
+export const emptyCustomMode = (): MutationMode => ({
+  id: createCustomModeId(),
+  label: "",
+  styleGuide: "",
+  masonAppearance: "",
+  defaultDetails: "",
+  icon: "Car",
+  builtIn: false,
+});
+
+export const allModes = (customModes: MutationMode[]): MutationMode[] => [
+  ...BUILT_IN_MODES,
+  ...customModes,
+];
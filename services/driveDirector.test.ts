@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  currentPhase,
+  difficultyAt,
+  direct,
+  DirectorState,
+  PhaseType,
+  rideDifficulty,
+  START_DIRECTOR,
+} from "./driveDirector";
+
+const SEED = 99;
+
+// Runs the director until the current phase is over, with no boss around.
+const nextPhase = (director: DirectorState) =>
+  direct(director, SEED, 1000, 1, false);
+
+describe("direct", () => {
+  it("starts with a wave", () => {
+    expect(currentPhase(START_DIRECTOR)).toBe("wave");
+    expect(START_DIRECTOR.wave).toBe(1);
+  });
+
+  it("moves through the schedule, counting waves but not breathers", () => {
+    const seen: [PhaseType | null, number][] = [];
+    let director = START_DIRECTOR;
+    for (let i = 0; i < 5; i++) {
+      const next = nextPhase(director);
+      seen.push([next.started, next.director.wave]);
+      director = next.director;
+    }
+    expect(seen).toEqual([
+      ["breather", 1],
+      ["wave", 2],
+      ["breather", 2],
+      ["wave", 3],
+      ["boss", 4],
+    ]);
+  });
+
+  it("spawns nothing during a breather", () => {
+    const breather = nextPhase(START_DIRECTOR).director;
+    const { spawns, started } = direct(breather, SEED, 1, 3, false);
+    expect(started).toBeNull();
+    expect(spawns).toEqual([]);
+  });
+
+  it("spawns the boss and holds the phase while it lives", () => {
+    let director = START_DIRECTOR;
+    let entered = nextPhase(director);
+    while (entered.started !== "boss") {
+      director = entered.director;
+      entered = nextPhase(director);
+    }
+    expect(entered.spawns).toContain("boss");
+
+    const held = direct(entered.director, SEED, 1000, 1, true);
+    expect(held.started).toBeNull();
+    expect(currentPhase(held.director)).toBe("boss");
+
+    const over = direct(held.director, SEED, 0.01, 1, false);
+    expect(over.started).toBe("breather");
+  });
+
+  it("loops back to the later waves after the last phase", () => {
+    let director = START_DIRECTOR;
+    const starts: (PhaseType | null)[] = [];
+    for (let i = 0; i < 11; i++) {
+      const next = nextPhase(director);
+      starts.push(next.started);
+      director = next.director;
+    }
+    expect(starts.slice(-2)).toEqual(["boss", "wave"]);
+    expect(director.phase).toBe(2);
+  });
+
+  it("is a function of its arguments", () => {
+    const director = { ...START_DIRECTOR, spawnTimer: 5 };
+    const first = direct(director, SEED, 1, 1, false);
+    expect(direct(director, SEED, 1, 1, false)).toEqual(first);
+    expect(first.spawns).toHaveLength(1);
+    expect(first.seed).not.toBe(SEED);
+    expect(director.spawnTimer).toBe(5);
+  });
+});
+
+describe("difficulty", () => {
+  it("is 1 for an all-fives ride and rises with the stats", () => {
+    const fives = {
+      topSpeed: 5,
+      acceleration: 5,
+      armour: 5,
+      handling: 5,
+      ramPower: 5,
+    };
+    expect(rideDifficulty(fives)).toBe(1);
+    expect(rideDifficulty({ ...fives, armour: 10 })).toBeGreaterThan(1);
+  });
+
+  it("grows with distance up to a cap", () => {
+    expect(difficultyAt(1, 0)).toBe(1);
+    expect(difficultyAt(1, 4000)).toBe(2);
+    expect(difficultyAt(1.5, 1e6)).toBe(3);
+  });
+});
@@ -0,0 +1,272 @@
+import { RideStats } from "../types";
+import { createRandomCursor, RandomSource } from "./random";
+
+// What comes down the road in Drive Mode, and when. The zombie archetypes
+// and the run's schedule of waves, breathers and bosses are both plain
+// tables; the director walks the schedule and tells the engine what to
+// spawn. Like the engine, it keeps no state of its own: the RNG comes in
+// and goes out as a seed.
+
+export type ZombieKind =
+  | "shambler"
+  | "runner"
+  | "brute"
+  | "spitter"
+  | "crawler"
+  | "boss";
+
+export interface ZombieArchetype {
+  /** Road half-widths, min and max. */
+  width: [number, number];
+  /** Metres per second towards the car, min and max. */
+  speed: [number, number];
+  /** Road half-widths per second it closes in on the car sideways. */
+  chase: number;
+  /** Bullets it takes to go down, before difficulty. */
+  health: number;
+  /** Times the ride's usual damage when it hits the car. */
+  damage: number;
+  /** Times the ride's ram speed needed to run it down. */
+  ramFactor: number;
+  score: number;
+  /** Too low for bullets, which pass over it. */
+  low: boolean;
+  /** Seconds between slime puddles, or 0 if it doesn't spit. */
+  spitInterval: number;
+}
+
+export const ARCHETYPES: Record<ZombieKind, ZombieArchetype> = {
+  shambler: {
+    width: [0.15, 0.22],
+    speed: [1, 3],
+    chase: 0.05,
+    health: 1,
+    damage: 1,
+    ramFactor: 1,
+    score: 50,
+    low: false,
+    spitInterval: 0,
+  },
+  runner: {
+    width: [0.13, 0.17],
+    speed: [7, 10],
+    chase: 0.35,
+    health: 1,
+    damage: 0.8,
+    ramFactor: 0.8,
+    score: 75,
+    low: false,
+    spitInterval: 0,
+  },
+  brute: {
+    width: [0.28, 0.34],
+    speed: [1, 2],
+    chase: 0.08,
+    health: 4,
+    damage: 2,
+    ramFactor: 1.4,
+    score: 150,
+    low: false,
+    spitInterval: 0,
+  },
+  spitter: {
+    width: [0.15, 0.18],
+    speed: [0, 1],
+    chase: 0,
+    health: 2,
+    damage: 0.8,
+    ramFactor: 1,
+    score: 100,
+    low: false,
+    spitInterval: 1.2,
+  },
+  crawler: {
+    width: [0.16, 0.2],
+    speed: [2, 4],
+    chase: 0.12,
+    health: 1,
+    damage: 0.6,
+    ramFactor: 0.5,
+    score: 60,
+    low: true,
+    spitInterval: 0,
+  },
+  boss: {
+    width: [0.55, 0.6],
+    speed: [0.5, 1],
+    chase: 0.15,
+    health: 14,
+    damage: 2.5,
+    // Can't be run down; it has to be shot or dodged.
+    ramFactor: Infinity,
+    score: 1000,
+    low: false,
+    spitInterval: 2.5,
+  },
+};
+
+export type PhaseType = "wave" | "breather" | "boss";
+
+interface Phase {
+  type: PhaseType;
+  /** Seconds; a boss phase also lasts until the boss is gone. */
+  duration: number;
+  /** Seconds between spawns, before difficulty; 0 spawns nothing. */
+  interval: number;
+  /** Relative odds of each kind turning up. */
+  mix: Partial<Record<ZombieKind, number>>;
+}
+
+const BREATHER: Phase = { type: "breather", duration: 6, interval: 0, mix: {} };
+
+// One pass of the run. After the last phase it starts again from
+// LOOP_FROM, by which time the distance has made everything harder.
+const SCHEDULE: Phase[] = [
+  { type: "wave", duration: 20, interval: 1.2, mix: { shambler: 1 } },
+  BREATHER,
+  {
+    type: "wave",
+    duration: 25,
+    interval: 1,
+    mix: { shambler: 3, runner: 1, crawler: 1 },
+  },
+  BREATHER,
+  {
+    type: "wave",
+    duration: 25,
+    interval: 0.9,
+    mix: { shambler: 2, runner: 2, spitter: 1, crawler: 1, brute: 1 },
+  },
+  {
+    type: "boss",
+    duration: 8,
+    interval: 2.5,
+    mix: { shambler: 2, crawler: 1 },
+  },
+  BREATHER,
+  {
+    type: "wave",
+    duration: 30,
+    interval: 0.8,
+    mix: { shambler: 2, runner: 3, spitter: 1, crawler: 2, brute: 1 },
+  },
+  BREATHER,
+  {
+    type: "wave",
+    duration: 30,
+    interval: 0.7,
+    mix: { runner: 3, spitter: 2, crawler: 2, brute: 2 },
+  },
+  {
+    type: "boss",
+    duration: 8,
+    interval: 1.8,
+    mix: { runner: 1, spitter: 1 },
+  },
+];
+const LOOP_FROM = 2;
+
+const MIN_SPAWN_INTERVAL = 0.3;
+/** Metres for difficulty to go up by one. */
+const DIFFICULTY_DISTANCE = 4000;
+const MAX_DIFFICULTY = 3;
+
+/**
+ * Starting difficulty for a ride: 1 for an all-fives ride, up to 1.5 for a
+ * maxed-out one and down to 0.7 for the weakest.
+ */
+export const rideDifficulty = (stats: RideStats) => {
+  const total = Object.values(stats).reduce((sum, stat) => sum + stat, 0);
+  return Math.max(0.7, Math.min(1.5, 1 + (total - 25) * 0.02));
+};
+
+/** Difficulty after `distance` metres, starting from `base`. */
+export const difficultyAt = (base: number, distance: number) =>
+  Math.min(MAX_DIFFICULTY, base * (1 + distance / DIFFICULTY_DISTANCE));
+
+export interface DirectorState {
+  /** Index into the schedule. */
+  phase: number;
+  /** Seconds into the phase. */
+  phaseTime: number;
+  spawnTimer: number;
+  /** Waves and boss fights started so far. */
+  wave: number;
+}
+
+export const START_DIRECTOR: DirectorState = {
+  phase: 0,
+  phaseTime: 0,
+  spawnTimer: 0,
+  wave: 1,
+};
+
+export const currentPhase = (director: DirectorState): PhaseType =>
+  SCHEDULE[director.phase].type;
+
+const pick = (rand: RandomSource, mix: Phase["mix"]): ZombieKind => {
+  const kinds = Object.keys(mix) as ZombieKind[];
+  const total = kinds.reduce((sum, kind) => sum + (mix[kind] ?? 0), 0);
+  let roll = rand() * total;
+  for (const kind of kinds) {
+    roll -= mix[kind] ?? 0;
+    if (roll < 0) return kind;
+  }
+  return kinds[kinds.length - 1];
+};
+
+export interface Direction {
+  director: DirectorState;
+  spawns: ZombieKind[];
+  /** Set when a new phase began this step. */
+  started: PhaseType | null;
+  /** The RNG seed to carry on from. */
+  seed: number;
+}
+
+/**
+ * Moves the schedule on by dt seconds at the given difficulty. `bossAlive`
+ * holds a boss phase open until the boss is killed or dodged.
+ */
+export const direct = (
+  director: DirectorState,
+  seed: number,
+  dt: number,
+  difficulty: number,
+  bossAlive: boolean
+): Direction => {
+  const random = createRandomCursor(seed);
+  let { phase, phaseTime, spawnTimer, wave } = director;
+  const spawns: ZombieKind[] = [];
+  let started: PhaseType | null = null;
+
+  phaseTime += dt;
+  const current = SCHEDULE[phase];
+  if (
+    phaseTime >= current.duration &&
+    !(current.type === "boss" && bossAlive)
+  ) {
+    phase = phase + 1 < SCHEDULE.length ? phase + 1 : LOOP_FROM;
+    phaseTime = 0;
+    spawnTimer = 0;
+    started = SCHEDULE[phase].type;
+    if (started !== "breather") wave += 1;
+    if (started === "boss") spawns.push("boss");
+  }
+
+  const { interval, mix } = SCHEDULE[phase];
+  if (interval > 0) {
+    spawnTimer += dt;
+    if (spawnTimer >= Math.max(MIN_SPAWN_INTERVAL, interval / difficulty)) {
+      spawnTimer = 0;
+      spawns.push(pick(random.next, mix));
+    }
+  }
+
+  return {
+    director: { phase, phaseTime, spawnTimer, wave },
+    spawns,
+    started,
+    seed: random.seed(),
+  };
+};
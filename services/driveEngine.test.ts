@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+  advance,
+  createDriveState,
+  DEFAULT_DRIVE_CONFIG,
+  DriveState,
+  FIXED_DT,
+  NO_INPUT,
+  step,
+  Zombie,
+} from "./driveEngine";
+
+const SEED = 1234;
+
+const zombie = (over: Partial<Zombie> = {}): Zombie => ({
+  id: 900,
+  kind: "shambler",
+  x: 0,
+  z: 100,
+  width: 0.2,
+  speed: 0,
+  health: 1,
+  spitTimer: 0,
+  ...over,
+});
+
+const withZombies = (zombies: Zombie[], over: Partial<DriveState> = {}) => ({
+  ...createDriveState(DEFAULT_DRIVE_CONFIG, SEED),
+  zombies,
+  ...over,
+});
+
+describe("step", () => {
+  it("gives the same result for the same arguments", () => {
+    const state = createDriveState(DEFAULT_DRIVE_CONFIG, SEED);
+    const before = JSON.stringify(state);
+    const first = step(state, NO_INPUT, 5);
+    const second = step(state, NO_INPUT, 5);
+    expect(second).toEqual(first);
+    expect(JSON.stringify(state)).toBe(before);
+  });
+
+  it("replays a run from its seed and inputs", () => {
+    const run = () => {
+      let state = createDriveState(DEFAULT_DRIVE_CONFIG, SEED);
+      for (let i = 0; i < 60 * 30; i++) {
+        const left = i % 120 < 30;
+        state = step(state, { left, right: !left, fire: true }, FIXED_DT);
+      }
+      return state;
+    };
+    expect(run()).toEqual(run());
+  });
+
+  it("hurts the car when a zombie hits it", () => {
+    const next = step(withZombies([zombie()]), NO_INPUT, FIXED_DT);
+    expect(next.health).toBe(100 - DEFAULT_DRIVE_CONFIG.hitDamage);
+    expect(next.events).toContainEqual({
+      type: "hit",
+      zombieId: 900,
+      damage: DEFAULT_DRIVE_CONFIG.hitDamage,
+    });
+    expect(next.zombies.some((z) => z.id === 900)).toBe(false);
+  });
+
+  it("lets the shield take a hit instead of the car", () => {
+    const next = step(withZombies([zombie()], { shield: 1 }), NO_INPUT, 0.01);
+    expect(next.health).toBe(100);
+    expect(next.shield).toBe(0);
+    expect(next.events).toContainEqual({
+      type: "kill",
+      zombieId: 900,
+      by: "shield",
+    });
+  });
+
+  it("rams zombies at ram speed and slows down", () => {
+    const speed = DEFAULT_DRIVE_CONFIG.ramSpeed + 10;
+    const next = step(withZombies([zombie()], { speed }), NO_INPUT, 0.01);
+    expect(next.health).toBe(100);
+    expect(next.kills).toBe(1);
+    expect(next.speed).toBeLessThan(speed);
+    expect(next.events).toContainEqual({
+      type: "kill",
+      zombieId: 900,
+      by: "ram",
+    });
+  });
+
+  it("never rams a boss", () => {
+    const boss = zombie({ kind: "boss", width: 0.5, health: 14 });
+    const next = step(withZombies([boss], { speed: 400 }), NO_INPUT, 0.01);
+    expect(next.health).toBe(
+      100 - Math.round(DEFAULT_DRIVE_CONFIG.hitDamage * 2.5)
+    );
+    expect(next.kills).toBe(0);
+  });
+
+  it("scores a dodge once a zombie is behind the car", () => {
+    const passing = zombie({ x: 1, z: -59, speed: 1 });
+    const next = step(withZombies([passing]), NO_INPUT, FIXED_DT);
+    expect(next.dodged).toBe(1);
+    expect(next.events).toContainEqual({ type: "dodge", zombieId: 900 });
+    expect(next.score).toBeGreaterThanOrEqual(25);
+    expect(next.score).toBeLessThan(26);
+    expect(next.zombies).toEqual([]);
+  });
+
+  it("ends the run when health runs out", () => {
+    const next = step(withZombies([zombie()], { health: 10 }), NO_INPUT, 0.01);
+    expect(next.health).toBe(0);
+    expect(next.over).toBe(true);
+    expect(next.events).toContainEqual({ type: "wrecked" });
+
+    const after = step(next, { left: true, right: false, fire: true }, 1);
+    expect(after).toEqual({ ...next, events: [] });
+  });
+});
+
+describe("advance", () => {
+  it("runs whole fixed steps and carries the remainder", () => {
+    const state = createDriveState(DEFAULT_DRIVE_CONFIG, SEED);
+    const frame = advance(state, NO_INPUT, FIXED_DT * 2.5);
+    expect(frame.state.time).toBeCloseTo(FIXED_DT * 2);
+    expect(frame.carry).toBeCloseTo(FIXED_DT * 0.5);
+
+    const next = advance(frame.state, NO_INPUT, FIXED_DT * 0.6, frame.carry);
+    expect(next.state.time).toBeCloseTo(FIXED_DT * 3);
+    expect(next.carry).toBeCloseTo(FIXED_DT * 0.1);
+  });
+
+  it("catches up at most five steps after a stall", () => {
+    const state = createDriveState(DEFAULT_DRIVE_CONFIG, SEED);
+    const frame = advance(state, NO_INPUT, 2);
+    expect(frame.state.time).toBeCloseTo(FIXED_DT * 5);
+    expect(frame.carry).toBeLessThanOrEqual(FIXED_DT);
+  });
+
+  it("collects the events of every step", () => {
+    const state = withZombies([zombie(), zombie({ id: 901, x: 1, z: 5000 })]);
+    const frame = advance(state, NO_INPUT, FIXED_DT * 3);
+    expect(frame.events).toContainEqual({
+      type: "hit",
+      zombieId: 900,
+      damage: DEFAULT_DRIVE_CONFIG.hitDamage,
+    });
+    expect(frame.state.events).not.toContainEqual(
+      expect.objectContaining({ type: "hit" })
+    );
+  });
+});
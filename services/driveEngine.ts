@@ -0,0 +1,562 @@
+import { DriveRunResult, RideLoadout, RideStats } from "../types";
+import {
+  ARCHETYPES,
+  difficultyAt,
+  direct,
+  DirectorState,
+  PhaseType,
+  rideDifficulty,
+  START_DIRECTOR,
+  ZombieKind,
+} from "./driveDirector";
+import {
+  buildTrack,
+  LANES,
+  laneCentre,
+  PLAYER_Z,
+  SEGMENT_LENGTH,
+  segmentAt,
+  Track,
+  WORLD_UNITS_PER_METRE,
+  wrapZ,
+} from "./driveTrack";
+import { createRandomCursor, RandomSource } from "./random";
+import { NO_LOADOUT } from "./rideStats";
+
+// Drive Mode gameplay with no DOM, canvas or React: a state, an input and a
+// fixed-timestep `step`. The renderer and HUD only read the state, so runs
+// can be replayed and tested headlessly with a seed. Positions use the
+// world units of the road in driveTrack.ts.
+
+export const FIXED_DT = 1 / 60;
+// After a long stall (tab in the background) catch up this much at most.
+const MAX_STEPS_PER_FRAME = 5;
+
+/** Road half-widths. */
+export const CAR_WIDTH = 0.3;
+/** World units from the car's back bumper to its nose. */
+export const CAR_LENGTH = 300;
+/** How far onto the verge the car can go. */
+const CAR_X_LIMIT = 1.6;
+// How hard curves push the car outwards.
+const CENTRIFUGAL = 0.12;
+
+const ZOMBIE_DEPTH = 60;
+/** Zombies and pickups appear this far ahead, in the fog. */
+const SPAWN_AHEAD = 100 * SEGMENT_LENGTH;
+
+const MAX_HEALTH = 100;
+const DODGE_SCORE = 25;
+
+const FIRE_INTERVAL = 0.12;
+/** World units per second, relative to the car. */
+const BULLET_SPEED = 30000;
+const BULLET_RANGE = 60 * SEGMENT_LENGTH;
+/** Road half-widths either side of a bullet that still count as a hit. */
+const BULLET_REACH = 0.03;
+/** A successful ram knocks the car down to this much of its speed. */
+const RAM_SLOWDOWN = 0.75;
+
+/** Seconds between pickups, min and max. */
+const PICKUP_INTERVAL = [5, 9];
+export const PICKUP_WIDTH = 0.2;
+const REPAIR_HEALTH = 30;
+const AMMO_PICKUP = 15;
+const NITRO_TIME = 3;
+const NITRO_BOOST = 1.3;
+
+export const SLIME_WIDTH = 0.35;
+/** Seconds the car stays slowed after driving through slime. */
+const SLIME_TIME = 1.5;
+/** Slime holds the car to this much of its top speed. */
+const SLIME_SLOWDOWN = 0.6;
+/** Spitters only spit between these distances ahead of the car. */
+const SPIT_RANGE = [3 * CAR_LENGTH, 50 * SEGMENT_LENGTH];
+
+export interface DriveConfig {
+  /** km/h */
+  maxSpeed: number;
+  /** km/h per second */
+  accel: number;
+  /** Road half-widths per second at full speed. */
+  steerRate: number;
+  /** Health lost per zombie hit. */
+  hitDamage: number;
+  /** km/h from which hitting a zombie kills it instead of hurting the car. */
+  ramSpeed: number;
+  loadout: RideLoadout;
+  /** Difficulty at the start line; distance raises it from here. */
+  difficulty: number;
+}
+
+export const DEFAULT_DRIVE_CONFIG: DriveConfig = {
+  maxSpeed: 210,
+  accel: 180,
+  steerRate: 2,
+  hitDamage: 25,
+  ramSpeed: 180,
+  loadout: NO_LOADOUT,
+  difficulty: 1,
+};
+
+/** Turns a ride's 1–10 ratings into tuning; all fives is the default. */
+export const driveConfigForStats = (
+  stats: RideStats,
+  loadout: RideLoadout = NO_LOADOUT
+): DriveConfig => ({
+  maxSpeed: 160 + stats.topSpeed * 10,
+  accel: 100 + stats.acceleration * 16,
+  steerRate: 1.25 + stats.handling * 0.15,
+  hitDamage: 40 - stats.armour * 3,
+  ramSpeed: Math.max(60, 320 - (stats.armour + stats.ramPower) * 14),
+  loadout,
+  difficulty: rideDifficulty(stats),
+});
+
+export interface Zombie {
+  id: number;
+  kind: ZombieKind;
+  /** Road half-widths from the centre line. */
+  x: number;
+  /** World units ahead of the car's back bumper. */
+  z: number;
+  /** Road half-widths. */
+  width: number;
+  /** Metres per second towards the car. */
+  speed: number;
+  /** Bullets left before it goes down. */
+  health: number;
+  /** Seconds until a spitter's next puddle. */
+  spitTimer: number;
+}
+
+export interface Bullet {
+  id: number;
+  x: number;
+  z: number;
+}
+
+export type PickupKind = "repair" | "ammo" | "nitro" | "shield";
+
+export interface Pickup {
+  id: number;
+  kind: PickupKind;
+  x: number;
+  z: number;
+}
+
+/** A puddle left by a spitter; driving through it slows the car. */
+export interface Slime {
+  id: number;
+  x: number;
+  z: number;
+}
+
+export interface DriveInput {
+  left: boolean;
+  right: boolean;
+  fire: boolean;
+}
+
+export const NO_INPUT: DriveInput = { left: false, right: false, fire: false };
+
+export type KillCause = "gun" | "ram" | "shield";
+
+export type DriveEvent =
+  | { type: "spawn"; zombieId: number }
+  | { type: "hit"; zombieId: number; damage: number }
+  | { type: "dodge"; zombieId: number }
+  | { type: "wound"; zombieId: number }
+  | { type: "kill"; zombieId: number; by: KillCause }
+  | { type: "shot" }
+  | { type: "pickup"; kind: PickupKind }
+  | { type: "slimed" }
+  | { type: "phase"; phase: PhaseType; wave: number }
+  | { type: "wrecked" };
+
+export interface DriveState {
+  config: DriveConfig;
+  /** RNG state; each step draws from it and stores where it got to. */
+  seed: number;
+  track: Track;
+  /** Seconds since the run started. */
+  time: number;
+  /** km/h */
+  speed: number;
+  /** World z of the camera along the track, within one lap. */
+  position: number;
+  /** Road half-widths from the centre line; beyond ±1 is off-road. */
+  carX: number;
+  health: number;
+  score: number;
+  dodged: number;
+  kills: number;
+  /** Metres. */
+  distance: number;
+  ammo: number;
+  /** Hits left on the shield. */
+  shield: number;
+  /** Seconds of nitro left. */
+  nitro: number;
+  /** Seconds the car has left slowed by slime. */
+  slimed: number;
+  fireCooldown: number;
+  zombies: Zombie[];
+  bullets: Bullet[];
+  pickups: Pickup[];
+  slime: Slime[];
+  /** Shared by zombies, bullets, pickups and slime. */
+  nextId: number;
+  director: DirectorState;
+  /** Seconds until the next pickup. */
+  pickupTimer: number;
+  over: boolean;
+  /** What happened during the last step. */
+  events: DriveEvent[];
+}
+
+export const createDriveState = (
+  config: DriveConfig = DEFAULT_DRIVE_CONFIG,
+  seed = Date.now()
+): DriveState => ({
+  config,
+  seed: seed >>> 0,
+  track: buildTrack(),
+  time: 0,
+  speed: 0,
+  position: 0,
+  carX: 0,
+  health: MAX_HEALTH,
+  score: 0,
+  dodged: 0,
+  kills: 0,
+  distance: 0,
+  ammo: config.loadout.gun ? config.loadout.ammo : 0,
+  shield: config.loadout.shield,
+  nitro: 0,
+  slimed: 0,
+  fireCooldown: 0,
+  zombies: [],
+  bullets: [],
+  pickups: [],
+  slime: [],
+  nextId: 1,
+  director: START_DIRECTOR,
+  pickupTimer: PICKUP_INTERVAL[0],
+  over: false,
+  events: [],
+});
+
+const clamp = (v: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, v));
+
+const between = (rand: RandomSource, [min, max]: number[]) =>
+  min + rand() * (max - min);
+
+// Harder runs bring quicker zombies, and tougher ones where it takes more
+// than a bullet.
+const spawnZombie = (
+  rand: RandomSource,
+  id: number,
+  kind: ZombieKind,
+  difficulty: number
+): Zombie => {
+  const archetype = ARCHETYPES[kind];
+  const lane = Math.floor(rand() * LANES);
+  return {
+    id,
+    kind,
+    x: laneCentre(lane) + (rand() - 0.5) * 0.3,
+    z: SPAWN_AHEAD,
+    width: between(rand, archetype.width),
+    speed: between(rand, archetype.speed) * (0.5 + difficulty / 2),
+    health:
+      archetype.health > 1
+        ? Math.round(archetype.health * difficulty)
+        : archetype.health,
+    spitTimer: archetype.spitInterval * rand(),
+  };
+};
+
+const spawnPickup = (
+  rand: RandomSource,
+  id: number,
+  loadout: RideLoadout
+): Pickup => {
+  // No ammo for rides without a gun to put it in.
+  const kinds: PickupKind[] = loadout.gun
+    ? ["repair", "ammo", "ammo", "nitro", "shield"]
+    : ["repair", "nitro", "shield"];
+  return {
+    id,
+    kind: kinds[Math.floor(rand() * kinds.length)],
+    x: laneCentre(Math.floor(rand() * LANES)),
+    z: SPAWN_AHEAD,
+  };
+};
+
+/** Whether something `width` wide at (x, z) overlaps the car. */
+const touchesCar = (x: number, z: number, width: number, carX: number) =>
+  Math.abs(x - carX) < (CAR_WIDTH + width) / 2 &&
+  z < CAR_LENGTH &&
+  z > -ZOMBIE_DEPTH;
+
+export const hitsCar = (zombie: Zombie, carX: number) =>
+  touchesCar(zombie.x, zombie.z, zombie.width, carX);
+
+// Sideways towards the car at the archetype's pace, until level with it.
+const chaseCar = (zombie: Zombie, carX: number, dt: number) => {
+  if (zombie.z < CAR_LENGTH) return zombie.x;
+  const reach = ARCHETYPES[zombie.kind].chase * dt;
+  return zombie.x + clamp(carX - zombie.x, -reach, reach);
+};
+
+/**
+ * Advances the run by dt seconds. Reads `state` without changing it, so the
+ * same arguments always give the same next state. Finished runs are
+ * returned unchanged.
+ */
+export const step = (
+  state: DriveState,
+  input: DriveInput,
+  dt: number
+): DriveState => {
+  if (state.over) return { ...state, events: [] };
+  const { config, track } = state;
+  const events: DriveEvent[] = [];
+
+  // Nitro lifts the top speed; afterwards the car coasts back down to it.
+  let nitro = Math.max(0, state.nitro - dt);
+  let slimed = Math.max(0, state.slimed - dt);
+  const topSpeed = config.maxSpeed * (nitro > 0 ? NITRO_BOOST : 1);
+  const accel = config.accel * (nitro > 0 ? 2 : 1);
+  let speed =
+    state.speed > topSpeed
+      ? Math.max(topSpeed, state.speed - config.accel * dt)
+      : Math.min(topSpeed, state.speed + accel * dt);
+  // The verge drags the car down to a quarter of its top speed.
+  if (Math.abs(state.carX) > 1 && speed > config.maxSpeed / 4) {
+    speed = Math.max(config.maxSpeed / 4, state.speed - config.maxSpeed * dt);
+  }
+  // Slime drags it the same way, down to a little over half.
+  const slimeSpeed = topSpeed * SLIME_SLOWDOWN;
+  if (slimed > 0 && speed > slimeSpeed) {
+    speed = Math.max(slimeSpeed, state.speed - config.maxSpeed * dt);
+  }
+  const speedRatio = Math.min(1, speed / config.maxSpeed);
+  const travel = (speed / 3.6) * WORLD_UNITS_PER_METRE * dt; // km/h → m/s
+
+  const steer = speedRatio * config.steerRate * dt;
+  const curve = segmentAt(track, state.position + PLAYER_Z).curve;
+  let carX = state.carX - steer * speedRatio * curve * CENTRIFUGAL;
+  if (input.left) carX -= steer;
+  if (input.right) carX += steer;
+  carX = clamp(carX, -CAR_X_LIMIT, CAR_X_LIMIT);
+
+  let { pickupTimer, nextId } = state;
+  let zombies = state.zombies;
+  const difficulty = difficultyAt(config.difficulty, state.distance);
+  const { director, spawns, started, seed } = direct(
+    state.director,
+    state.seed,
+    dt,
+    difficulty,
+    zombies.some((z) => z.kind === "boss")
+  );
+  const random = createRandomCursor(seed);
+  const rand = random.next;
+  if (started) {
+    events.push({ type: "phase", phase: started, wave: director.wave });
+  }
+  for (const kind of spawns) {
+    const zombie = spawnZombie(rand, nextId++, kind, difficulty);
+    zombies = [...zombies, zombie];
+    events.push({ type: "spawn", zombieId: zombie.id });
+  }
+
+  let pickups = state.pickups;
+  pickupTimer -= dt;
+  if (pickupTimer <= 0) {
+    pickups = [...pickups, spawnPickup(rand, nextId++, config.loadout)];
+    pickupTimer = between(rand, PICKUP_INTERVAL);
+  }
+
+  let { ammo, fireCooldown } = state;
+  let bullets = state.bullets;
+  fireCooldown = Math.max(0, fireCooldown - dt);
+  if (input.fire && config.loadout.gun && ammo > 0 && fireCooldown === 0) {
+    bullets = [...bullets, { id: nextId++, x: carX, z: CAR_LENGTH }];
+    ammo -= 1;
+    fireCooldown = FIRE_INTERVAL;
+    events.push({ type: "shot" });
+  }
+  const shots = bullets.map((b) => ({
+    from: b.z,
+    bullet: { ...b, z: b.z + BULLET_SPEED * dt },
+  }));
+
+  let { health, score, dodged, kills, shield } = state;
+  let over = false;
+  const spent = new Set<number>();
+  const survivors: Zombie[] = [];
+  let slime = state.slime.map((puddle) => ({
+    ...puddle,
+    z: puddle.z - travel,
+  }));
+  for (const z of zombies) {
+    const archetype = ARCHETYPES[z.kind];
+    const moved = {
+      ...z,
+      x: chaseCar(z, carX, dt),
+      z: z.z - travel - z.speed * WORLD_UNITS_PER_METRE * dt,
+      spitTimer: z.spitTimer - dt,
+    };
+    // Bullets cover a lot of road per step; test the whole stretch.
+    const shot = archetype.low
+      ? undefined
+      : shots.find(
+          ({ from, bullet }) =>
+            !spent.has(bullet.id) &&
+            Math.abs(bullet.x - moved.x) < moved.width / 2 + BULLET_REACH &&
+            bullet.z >= moved.z &&
+            from <= z.z + ZOMBIE_DEPTH
+        );
+    if (shot) {
+      spent.add(shot.bullet.id);
+      moved.health -= 1;
+      if (moved.health <= 0) {
+        score += archetype.score;
+        kills += 1;
+        events.push({ type: "kill", zombieId: z.id, by: "gun" });
+        continue;
+      }
+      events.push({ type: "wound", zombieId: z.id });
+    }
+
+    if (!over && hitsCar(moved, carX)) {
+      if (shield > 0) {
+        shield -= 1;
+        score += archetype.score;
+        kills += 1;
+        events.push({ type: "kill", zombieId: z.id, by: "shield" });
+      } else if (speed >= config.ramSpeed * archetype.ramFactor) {
+        speed *= RAM_SLOWDOWN;
+        score += archetype.score;
+        kills += 1;
+        events.push({ type: "kill", zombieId: z.id, by: "ram" });
+      } else {
+        const damage = Math.round(config.hitDamage * archetype.damage);
+        health = Math.max(0, health - damage);
+        events.push({ type: "hit", zombieId: z.id, damage });
+        if (health === 0) {
+          over = true;
+          events.push({ type: "wrecked" });
+        }
+      }
+    } else if (moved.z <= -ZOMBIE_DEPTH) {
+      score += DODGE_SCORE;
+      dodged += 1;
+      events.push({ type: "dodge", zombieId: z.id });
+    } else {
+      if (
+        archetype.spitInterval > 0 &&
+        moved.spitTimer <= 0 &&
+        moved.z > SPIT_RANGE[0] &&
+        moved.z < SPIT_RANGE[1]
+      ) {
+        // Just in front of itself, into the car's path.
+        slime = [
+          ...slime,
+          { id: nextId++, x: moved.x, z: moved.z - 2 * SEGMENT_LENGTH },
+        ];
+        moved.spitTimer = archetype.spitInterval;
+      }
+      survivors.push(moved);
+    }
+  }
+
+  const keptSlime: Slime[] = [];
+  for (const puddle of slime) {
+    if (touchesCar(puddle.x, puddle.z, SLIME_WIDTH, carX)) {
+      // The car splashes straight through it.
+      slimed = SLIME_TIME;
+      events.push({ type: "slimed" });
+    } else if (puddle.z > -ZOMBIE_DEPTH) {
+      keptSlime.push(puddle);
+    }
+  }
+
+  const keptPickups: Pickup[] = [];
+  for (const p of pickups) {
+    const moved = { ...p, z: p.z - travel };
+    if (touchesCar(moved.x, moved.z, PICKUP_WIDTH, carX)) {
+      events.push({ type: "pickup", kind: p.kind });
+      if (p.kind === "repair") {
+        health = Math.min(MAX_HEALTH, health + REPAIR_HEALTH);
+      } else if (p.kind === "ammo") ammo += AMMO_PICKUP;
+      else if (p.kind === "nitro") nitro = NITRO_TIME;
+      else shield += 1;
+    } else if (moved.z > -ZOMBIE_DEPTH) {
+      keptPickups.push(moved);
+    }
+  }
+
+  return {
+    ...state,
+    time: state.time + dt,
+    speed,
+    position: wrapZ(track, state.position + travel),
+    carX,
+    health,
+    score: score + (dt * speed) / 12,
+    dodged,
+    kills,
+    distance: state.distance + travel / WORLD_UNITS_PER_METRE,
+    ammo,
+    shield,
+    nitro,
+    slimed,
+    fireCooldown,
+    zombies: survivors,
+    bullets: shots
+      .map(({ bullet }) => bullet)
+      .filter((b) => !spent.has(b.id) && b.z < BULLET_RANGE),
+    pickups: keptPickups,
+    slime: keptSlime,
+    seed: random.seed(),
+    nextId,
+    director,
+    pickupTimer,
+    over,
+    events,
+  };
+};
+
+/**
+ * Runs as many fixed steps as fit in `elapsed` plus the carried-over
+ * remainder. Returns the new state, the time left over for next frame and
+ * every event from the steps taken.
+ */
+export const advance = (
+  state: DriveState,
+  input: DriveInput,
+  elapsed: number,
+  carry = 0
+) => {
+  let time = carry + elapsed;
+  let next = state;
+  const events: DriveEvent[] = [];
+  for (let i = 0; i < MAX_STEPS_PER_FRAME && time >= FIXED_DT; i++) {
+    next = step(next, input, FIXED_DT);
+    events.push(...next.events);
+    time -= FIXED_DT;
+  }
+  // Drop whatever couldn't be caught up rather than spiralling.
+  return { state: next, carry: Math.min(time, FIXED_DT), events };
+};
+
+export const runResult = (state: DriveState): DriveRunResult => ({
+  score: Math.round(state.score),
+  zombiesDodged: state.dodged,
+  distance: Math.round(state.distance),
+});
@@ -0,0 +1,463 @@
+import { ARCHETYPES, ZombieKind } from "./driveDirector";
+import {
+  CAR_WIDTH,
+  DriveState,
+  PICKUP_WIDTH,
+  PickupKind,
+  SLIME_WIDTH,
+  Zombie,
+} from "./driveEngine";
+import {
+  CAMERA_DEPTH,
+  CAMERA_HEIGHT,
+  DRAW_DISTANCE,
+  FOG_DENSITY,
+  heightAt,
+  LANES,
+  PLAYER_Z,
+  ROAD_WIDTH,
+  RUMBLE_LENGTH,
+  SEGMENT_LENGTH,
+  segmentAt,
+  wrapZ,
+} from "./driveTrack";
+
+// Draws a Drive Mode state onto a canvas. Only reads the state; everything
+// here is about turning world units into pixels. Segments are drawn front
+// to back, each clipped to what the nearer ones left uncovered, then the
+// slime, zombies, pickups and bullets back to front.
+
+export interface DriveView {
+  /** CSS pixels; the context is expected to be scaled for the dpr. */
+  width: number;
+  height: number;
+  /** The ride, or null to draw a placeholder block. */
+  car: HTMLImageElement | null;
+}
+
+const COLORS = {
+  skyTop: "#6ec5ff",
+  fog: "#1f2933",
+  grass: ["#052e16", "#064e3b"],
+  road: ["#111827", "#172033"],
+  rumble: ["#22c55e", "#14532d"],
+  lane: "#facc15",
+  car: "#38bdf8",
+  bullet: "#fde047",
+  shield: "rgba(167, 139, 250, 0.35)",
+  nitro: ["#f97316", "#fde047"],
+  slime: "rgba(163, 230, 53, 0.7)",
+  health: "#f87171",
+};
+
+const BULLET_WIDTH = 0.02;
+
+interface ZombieLook {
+  body: string;
+  head: string;
+  eyes: string;
+  glow: string;
+  /** Height for its width; crawlers are flat, brutes hulking. */
+  stretch: number;
+}
+
+const ZOMBIE_LOOKS: Record<ZombieKind, ZombieLook> = {
+  shambler: {
+    body: "#22c55e",
+    head: "#16a34a",
+    eyes: "white",
+    glow: "rgba(248, 113, 113, 0.8)",
+    stretch: 1,
+  },
+  runner: {
+    body: "#facc15",
+    head: "#a3e635",
+    eyes: "#f87171",
+    glow: "rgba(250, 204, 21, 0.8)",
+    stretch: 1.3,
+  },
+  brute: {
+    body: "#57534e",
+    head: "#65a30d",
+    eyes: "#fbbf24",
+    glow: "rgba(248, 113, 113, 0.8)",
+    stretch: 1.1,
+  },
+  spitter: {
+    body: "#84cc16",
+    head: "#4d7c0f",
+    eyes: "#ecfccb",
+    glow: "rgba(163, 230, 53, 0.9)",
+    stretch: 1,
+  },
+  crawler: {
+    body: "#15803d",
+    head: "#166534",
+    eyes: "white",
+    glow: "rgba(248, 113, 113, 0.6)",
+    stretch: 0.45,
+  },
+  boss: {
+    body: "#7f1d1d",
+    head: "#3f6212",
+    eyes: "#fde047",
+    glow: "rgba(220, 38, 38, 1)",
+    stretch: 1.2,
+  },
+};
+
+const PICKUP_LOOKS: Record<PickupKind, { color: string; label: string }> = {
+  repair: { color: "#22c55e", label: "+" },
+  ammo: { color: "#facc15", label: "A" },
+  nitro: { color: "#38bdf8", label: "N" },
+  shield: { color: "#a78bfa", label: "S" },
+};
+
+interface Projected {
+  x: number;
+  y: number;
+  /** Road half-width on screen. */
+  w: number;
+}
+
+// Where each segment ended up, for placing sprites on it.
+interface Sprite {
+  /** Road half-widths. */
+  x: number;
+  /** World units ahead of the car. */
+  z: number;
+  /** Road half-widths; sets how big it's drawn. */
+  width: number;
+  /** Draws at the origin, where the sprite touches the road. */
+  paint: (size: number) => void;
+}
+
+interface DrawnSegment {
+  /** Road centre offsets from the curves at the near and far edge. */
+  curve1: number;
+  curve2: number;
+  /** Lowest screen y still visible over the nearer hills. */
+  clip: number;
+  fog: number;
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const fogAt = (distance: number) =>
+  1 / Math.exp(distance * distance * FOG_DENSITY);
+
+// A strip of road between two projected edges, `from`–`to` across the road
+// in half-widths (-1 is the left edge).
+const strip = (
+  ctx: CanvasRenderingContext2D,
+  color: string,
+  p1: Projected,
+  p2: Projected,
+  from: number,
+  to: number
+) => {
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(p1.x + p1.w * from, p1.y);
+  ctx.lineTo(p1.x + p1.w * to, p1.y);
+  ctx.lineTo(p2.x + p2.w * to, p2.y);
+  ctx.lineTo(p2.x + p2.w * from, p2.y);
+  ctx.closePath();
+  ctx.fill();
+};
+
+const drawSegment = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  p1: Projected,
+  p2: Projected,
+  index: number,
+  fog: number
+) => {
+  const shade = Math.floor(index / RUMBLE_LENGTH) % 2;
+  ctx.fillStyle = COLORS.grass[shade];
+  ctx.fillRect(0, p2.y, width, p1.y - p2.y);
+
+  strip(ctx, COLORS.rumble[shade], p1, p2, -1.15, 1.15);
+  strip(ctx, COLORS.road[shade], p1, p2, -1, 1);
+  if (shade === 0) {
+    const marker = 0.03;
+    for (let lane = 1; lane < LANES; lane++) {
+      const x = -1 + (lane * 2) / LANES;
+      strip(ctx, COLORS.lane, p1, p2, x - marker, x + marker);
+    }
+  }
+
+  if (fog < 1) {
+    ctx.globalAlpha = 1 - fog;
+    ctx.fillStyle = COLORS.fog;
+    ctx.fillRect(0, p2.y, width, p1.y - p2.y);
+    ctx.globalAlpha = 1;
+  }
+};
+
+// Drawn with its feet at the origin.
+const drawZombie = (
+  ctx: CanvasRenderingContext2D,
+  zombie: Zombie,
+  size: number
+) => {
+  const look = ZOMBIE_LOOKS[zombie.kind];
+  ctx.save();
+  ctx.scale(1, look.stretch);
+  ctx.translate(0, -size * 0.2);
+  ctx.shadowColor = look.glow;
+  ctx.shadowBlur = 18;
+
+  // body
+  ctx.fillStyle = look.body;
+  ctx.fillRect(-size / 2, -size / 2, size, size * 0.7);
+
+  // head
+  ctx.beginPath();
+  ctx.fillStyle = look.head;
+  ctx.arc(0, -size * 0.3, size * 0.35, 0, Math.PI * 2);
+  ctx.fill();
+
+  // eyes
+  ctx.fillStyle = look.eyes;
+  ctx.beginPath();
+  ctx.arc(-size * 0.12, -size * 0.34, size * 0.07, 0, Math.PI * 2);
+  ctx.arc(size * 0.12, -size * 0.34, size * 0.07, 0, Math.PI * 2);
+  ctx.fill();
+
+  if (zombie.kind === "spitter") {
+    // drool
+    ctx.fillStyle = COLORS.slime;
+    ctx.fillRect(-size * 0.05, -size * 0.22, size * 0.1, size * 0.3);
+  }
+  ctx.restore();
+
+  // Anything that takes more than one bullet shows what it has left.
+  const full = ARCHETYPES[zombie.kind].health;
+  if (full > 1) {
+    const pip = size / Math.max(full, zombie.health);
+    const top = -size * (0.9 * look.stretch + 0.15);
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = COLORS.health;
+    for (let i = 0; i < zombie.health; i++) {
+      ctx.fillRect(-size / 2 + i * pip, top, pip * 0.8, size * 0.06);
+    }
+  }
+};
+
+const drawSlime = (ctx: CanvasRenderingContext2D, size: number) => {
+  ctx.fillStyle = COLORS.slime;
+  ctx.beginPath();
+  ctx.ellipse(0, 0, size / 2, size / 8, 0, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+const drawPickup = (
+  ctx: CanvasRenderingContext2D,
+  kind: PickupKind,
+  size: number
+) => {
+  const { color, label } = PICKUP_LOOKS[kind];
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 16;
+  ctx.fillStyle = "rgba(2, 6, 23, 0.85)";
+  ctx.strokeStyle = color;
+  ctx.lineWidth = Math.max(1, size * 0.1);
+  ctx.beginPath();
+  ctx.rect(-size / 2, -size, size, size);
+  ctx.fill();
+  ctx.stroke();
+  ctx.fillStyle = color;
+  ctx.font = `700 ${Math.round(size * 0.7)}px 'Roboto Mono', monospace`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(label, 0, -size / 2);
+};
+
+// The car sits where the road meets the bottom of the screen, facing away.
+const drawCar = (
+  ctx: CanvasRenderingContext2D,
+  state: DriveState,
+  car: HTMLImageElement | null,
+  width: number,
+  height: number
+) => {
+  const scale = CAMERA_DEPTH / PLAYER_Z;
+  const carWidth = scale * CAR_WIDTH * ROAD_WIDTH * (width / 2);
+  const loaded = car && car.complete && car.naturalWidth > 0;
+  const aspect = loaded
+    ? Math.min(1.4, Math.max(0.5, car.naturalHeight / car.naturalWidth))
+    : 0.6;
+  const carHeight = carWidth * aspect;
+  const x = (width - carWidth) / 2;
+  const y = height * 0.98 - carHeight;
+
+  if (state.nitro > 0) {
+    // Flicker the exhaust flames with the clock.
+    const flame = carHeight * (0.25 + 0.1 * Math.sin(state.time * 40));
+    COLORS.nitro.forEach((color, i) => {
+      const w = carWidth * (0.12 - i * 0.05);
+      for (const side of [0.3, 0.7]) {
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.moveTo(x + carWidth * side - w, y + carHeight);
+        ctx.lineTo(x + carWidth * side + w, y + carHeight);
+        const tip = y + carHeight + flame * (1 - i * 0.4);
+        ctx.lineTo(x + carWidth * side, tip);
+        ctx.closePath();
+        ctx.fill();
+      }
+    });
+  }
+
+  if (loaded) {
+    ctx.drawImage(car, x, y, carWidth, carHeight);
+  } else {
+    ctx.fillStyle = COLORS.car;
+    ctx.fillRect(x, y, carWidth, carHeight);
+  }
+
+  if (state.shield > 0) {
+    ctx.fillStyle = COLORS.shield;
+    ctx.strokeStyle = "#a78bfa";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.ellipse(
+      width / 2,
+      y + carHeight / 2,
+      carWidth * 0.7,
+      carHeight * 0.75,
+      0,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+    ctx.stroke();
+  }
+};
+
+export const renderDrive = (
+  ctx: CanvasRenderingContext2D,
+  state: DriveState,
+  { width, height, car }: DriveView
+) => {
+  const { track, position, carX } = state;
+  const segments = track.segments;
+  const base = segmentAt(track, position);
+  const basePercent =
+    (wrapZ(track, position) % SEGMENT_LENGTH) / SEGMENT_LENGTH;
+  const cameraX = carX * ROAD_WIDTH;
+  const cameraY = heightAt(track, position + PLAYER_Z) + CAMERA_HEIGHT;
+
+  const project = (x: number, y: number, z: number): Projected => {
+    const scale = CAMERA_DEPTH / z;
+    return {
+      x: width / 2 + scale * (x - cameraX) * (width / 2),
+      y: height / 2 - scale * (y - cameraY) * (height / 2),
+      w: scale * ROAD_WIDTH * (width / 2),
+    };
+  };
+
+  const sky = ctx.createLinearGradient(0, 0, 0, height / 2);
+  sky.addColorStop(0, COLORS.skyTop);
+  sky.addColorStop(1, COLORS.fog);
+  ctx.fillStyle = sky;
+  ctx.fillRect(0, 0, width, height / 2);
+  ctx.fillStyle = COLORS.fog;
+  ctx.fillRect(0, height / 2, width, height / 2);
+
+  const drawn: DrawnSegment[] = [];
+  let maxY = height;
+  // Curves bend the road by accumulating a sideways offset per segment.
+  let curveX = 0;
+  let curveDx = -base.curve * basePercent;
+
+  for (let n = 0; n < DRAW_DISTANCE; n++) {
+    const segment = segments[(base.index + n) % segments.length];
+    const looped = segment.index < base.index ? track.length : 0;
+    const z1 = segment.index * SEGMENT_LENGTH + looped - position;
+    const curve1 = curveX;
+    const curve2 = curveX + curveDx;
+    curveX = curve2;
+    curveDx += segment.curve;
+
+    const fog = fogAt(n / DRAW_DISTANCE);
+    drawn.push({ curve1, curve2, clip: maxY, fog });
+    if (z1 <= CAMERA_DEPTH) continue;
+    const p1 = project(curve1, segment.y1, z1);
+    const p2 = project(curve2, segment.y2, z1 + SEGMENT_LENGTH);
+    // Behind the crest of a hill, or already covered by nearer road.
+    if (p2.y >= p1.y || p2.y >= maxY) continue;
+
+    drawSegment(ctx, width, p1, p2, segment.index, fog);
+    maxY = p2.y;
+  }
+
+  // Where a point on the road (x in half-widths, z ahead of the car) lands
+  // on screen, or null if it isn't on a drawn stretch of road.
+  const place = (x: number, carZ: number) => {
+    const z = PLAYER_Z + carZ;
+    const along = basePercent * SEGMENT_LENGTH + z;
+    const segment = drawn[Math.floor(along / SEGMENT_LENGTH)];
+    if (!segment || z <= CAMERA_DEPTH) return null;
+    const t = (along % SEGMENT_LENGTH) / SEGMENT_LENGTH;
+    const p = project(
+      lerp(segment.curve1, segment.curve2, t) + x * ROAD_WIDTH,
+      heightAt(track, position + z),
+      z
+    );
+    return { ...p, clip: segment.clip, fog: segment.fog };
+  };
+
+  // Everything standing on the road, drawn back to front from where it
+  // touches the road, each hidden behind nearer hills.
+  const sprites: Sprite[] = [
+    ...state.slime.map((puddle) => ({
+      x: puddle.x,
+      z: puddle.z,
+      width: SLIME_WIDTH,
+      paint: (size: number) => drawSlime(ctx, size),
+    })),
+    ...state.zombies.map((zombie) => ({
+      x: zombie.x,
+      z: zombie.z,
+      width: zombie.width,
+      paint: (size: number) => drawZombie(ctx, zombie, size),
+    })),
+    ...state.pickups.map((pickup) => ({
+      x: pickup.x,
+      z: pickup.z,
+      width: PICKUP_WIDTH,
+      paint: (size: number) => drawPickup(ctx, pickup.kind, size),
+    })),
+    ...state.bullets.map((bullet) => ({
+      x: bullet.x,
+      z: bullet.z,
+      width: BULLET_WIDTH,
+      paint: (size: number) => {
+        ctx.fillStyle = COLORS.bullet;
+        ctx.shadowColor = COLORS.bullet;
+        ctx.shadowBlur = 8;
+        ctx.fillRect(-size / 2, -size * 6, size, size * 4);
+      },
+    })),
+  ];
+  sprites.sort((a, b) => b.z - a.z);
+
+  for (const sprite of sprites) {
+    const p = place(sprite.x, sprite.z);
+    const size = p ? sprite.width * p.w : 0;
+    if (!p || size < 1) continue;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, width, p.clip);
+    ctx.clip();
+    ctx.globalAlpha = Math.max(0.2, p.fog);
+    ctx.translate(p.x, p.y);
+    sprite.paint(size);
+    ctx.restore();
+  }
+
+  drawCar(ctx, state, car, width, height);
+};
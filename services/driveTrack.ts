@@ -0,0 +1,112 @@
+// The Drive Mode road: a looping strip of short segments, each with a curve
+// and a height, drawn by projecting segment edges from a camera behind the
+// car (the classic pseudo-3D racer technique).
+//
+// World units: x is across the road with ±ROAD_WIDTH at the edges, y is
+// up, z runs along the track. One metre is WORLD_UNITS_PER_METRE.
+
+export const SEGMENT_LENGTH = 200;
+/** Half the road's width. */
+export const ROAD_WIDTH = 2000;
+export const LANES = 3;
+/** Segments per alternating rumble strip / lane marker colour. */
+export const RUMBLE_LENGTH = 3;
+export const WORLD_UNITS_PER_METRE = 100;
+
+export const CAMERA_HEIGHT = 1000;
+const FIELD_OF_VIEW = 100; // degrees
+export const CAMERA_DEPTH =
+  1 / Math.tan(((FIELD_OF_VIEW / 2) * Math.PI) / 180);
+/** How far ahead of the camera the car sits; puts it at the screen bottom. */
+export const PLAYER_Z = CAMERA_HEIGHT * CAMERA_DEPTH;
+/** Segments drawn ahead of the camera. */
+export const DRAW_DISTANCE = 200;
+export const FOG_DENSITY = 5;
+
+export interface RoadSegment {
+  index: number;
+  /** Sideways bend per segment; positive bends right. */
+  curve: number;
+  /** Heights at the near and far edge. */
+  y1: number;
+  y2: number;
+}
+
+export interface Track {
+  segments: RoadSegment[];
+  /** World units in one lap. */
+  length: number;
+}
+
+// [enter, hold, leave] segment counts, the curve at full bend, and the
+// height change in segment lengths over the whole section.
+type Section = [number, number, number, number, number];
+
+const LAYOUT: Section[] = [
+  [0, 60, 0, 0, 0],
+  [25, 50, 25, 2, 0],
+  [25, 25, 25, 0, 20],
+  [25, 50, 25, -4, 0],
+  [25, 25, 25, 0, -20],
+  [50, 50, 50, 0, 0],
+  [25, 25, 25, 4, 40],
+  [25, 50, 25, -2, -20],
+  [10, 25, 10, 6, 0],
+  [10, 25, 10, -6, 0],
+  [25, 25, 25, 0, 20],
+  [25, 25, 25, 2, -20],
+  [50, 100, 50, -2, -20],
+];
+
+const easeIn = (a: number, b: number, t: number) => a + (b - a) * t * t;
+
+const easeInOut = (a: number, b: number, t: number) =>
+  a + (b - a) * (-Math.cos(t * Math.PI) / 2 + 0.5);
+
+const sectionCurve = (
+  [enter, hold, leave, curve]: Section,
+  n: number
+): number => {
+  if (n < enter) return easeIn(0, curve, n / enter);
+  if (n < enter + hold) return curve;
+  return easeInOut(curve, 0, (n - enter - hold) / leave);
+};
+
+export const buildTrack = (): Track => {
+  const segments: RoadSegment[] = [];
+  let y = 0;
+  for (const section of LAYOUT) {
+    const [enter, hold, leave, , hill] = section;
+    const total = enter + hold + leave;
+    const startY = y;
+    const endY = startY + hill * SEGMENT_LENGTH;
+    for (let n = 0; n < total; n++) {
+      const y2 = easeInOut(startY, endY, (n + 1) / total);
+      segments.push({
+        index: segments.length,
+        curve: sectionCurve(section, n),
+        y1: y,
+        y2,
+      });
+      y = y2;
+    }
+  }
+  return { segments, length: segments.length * SEGMENT_LENGTH };
+};
+
+/** Wraps z into one lap. */
+export const wrapZ = (track: Track, z: number) =>
+  ((z % track.length) + track.length) % track.length;
+
+export const segmentAt = (track: Track, z: number) =>
+  track.segments[Math.floor(wrapZ(track, z) / SEGMENT_LENGTH)];
+
+/** Road height under z, between the segment's edges. */
+export const heightAt = (track: Track, z: number) => {
+  const segment = segmentAt(track, z);
+  const t = (wrapZ(track, z) % SEGMENT_LENGTH) / SEGMENT_LENGTH;
+  return segment.y1 + (segment.y2 - segment.y1) * t;
+};
+
+/** x of each lane's centre, in road half-widths. */
+export const laneCentre = (lane: number) => -1 + ((lane + 0.5) * 2) / LANES;
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  ArchiveError,
+  exportGarageArchive,
+  ImportedRide,
+  planImport,
+  readGarageArchive,
+} from "./garageArchive";
+import { normalizeRide } from "./garageStore";
+
+const imported = (
+  id: string,
+  parentId: string | null = null
+): ImportedRide => ({
+  ride: normalizeRide({
+    id,
+    parentId,
+    mode: "survival",
+    createdAt: "2026-03-01T12:00:00.000Z",
+  }),
+  image: new Blob([id], { type: "image/png" }),
+});
+
+const ids = (records: ImportedRide[]) => records.map(({ ride }) => ride.id);
+
+describe("planImport", () => {
+  const rides = [imported("a"), imported("b", "a"), imported("c", "x")];
+  const existing = new Set(["a", "x"]);
+
+  it("skips clashes and keeps the garage's copy", () => {
+    const plan = planImport(rides, existing, "skip");
+    expect(ids(plan.records)).toEqual(["b", "c"]);
+    expect(plan.replacedIds).toEqual([]);
+    expect(plan.skipped).toBe(1);
+  });
+
+  it("replaces clashes in place", () => {
+    const plan = planImport(rides, existing, "replace");
+    expect(ids(plan.records)).toEqual(["a", "b", "c"]);
+    expect(plan.replacedIds).toEqual(["a"]);
+    expect(plan.skipped).toBe(0);
+  });
+
+  it("gives duplicates fresh ids and moves lineage with them", () => {
+    const plan = planImport(rides, existing, "duplicate");
+    const [a, b, c] = plan.records.map(({ ride }) => ride);
+    expect(a.id).not.toBe("a");
+    expect(existing.has(a.id)).toBe(false);
+    // The archive's own refinement follows its copied parent...
+    expect(b).toMatchObject({ id: "b", parentId: a.id });
+    // ...while one of a ride outside the archive keeps pointing there.
+    expect(c).toMatchObject({ id: "c", parentId: "x" });
+    expect(plan.records[0].image).toBe(rides[0].image);
+    expect(plan.replacedIds).toEqual([]);
+  });
+
+  it("changes nothing when there are no clashes", () => {
+    for (const policy of ["skip", "replace", "duplicate"] as const) {
+      const plan = planImport(rides, new Set(), policy);
+      expect(plan.records.map(({ ride }) => ride)).toEqual(
+        rides.map(({ ride }) => ride)
+      );
+    }
+  });
+});
+
+describe("readGarageArchive", () => {
+  it("reads back an export, bin state cleared", async () => {
+    const ride = imported("a");
+    ride.ride.deletedAt = "2026-03-02T12:00:00.000Z";
+    const archive = await readGarageArchive(
+      await exportGarageArchive([ride, imported("b", "a")])
+    );
+    expect(archive.version).toBe(2);
+    expect(archive.invalid).toBe(0);
+    expect(ids(archive.rides)).toEqual(["a", "b"]);
+    expect(archive.rides[0].ride.deletedAt).toBeNull();
+    expect(archive.rides[1].ride.parentId).toBe("a");
+    expect(await archive.rides[0].image.text()).toBe("a");
+    expect(archive.rides[0].image.type).toBe("image/png");
+  });
+
+  it("reads a v1 export and drops bad or repeated rides", async () => {
+    const image = "data:image/png;base64,AAAA";
+    const ride = { id: "a", mode: "Mason's Bunker", createdAt: "2025-01-01" };
+    const v1 = JSON.stringify({
+      format: "mason-garage",
+      version: 1,
+      exportedAt: "2025-01-02T00:00:00.000Z",
+      rides: [
+        { ...ride, image },
+        { ...ride, image },
+        { ...ride, id: "b", image: "not a data url" },
+        { ...ride, id: "c", createdAt: "whenever", image },
+      ],
+    });
+    const archive = await readGarageArchive(new Blob([v1]));
+    expect(ids(archive.rides)).toEqual(["a"]);
+    expect(archive.rides[0].ride.mode).toBe("bunker");
+    expect(archive.invalid).toBe(3);
+  });
+
+  it("rejects files that aren't garage exports", async () => {
+    const cases = [
+      "not json",
+      JSON.stringify({ format: "something-else", version: 1, rides: [] }),
+      JSON.stringify({ format: "mason-garage", version: 3, rides: [] }),
+      JSON.stringify({ format: "mason-garage", version: 2 }),
+    ];
+    for (const text of cases) {
+      await expect(
+        readGarageArchive(new Blob([text]))
+      ).rejects.toBeInstanceOf(ArchiveError);
+    }
+  });
+});
@@ -0,0 +1,301 @@
+import { ZombieRide } from "../types";
+import {
+  dataUrlToBlob,
+  extensionForMimeType,
+  mimeTypeForExtension,
+} from "./blobs";
+import { normalizeRide } from "./garageStore";
+import {
+  createZip,
+  looksLikeZip,
+  readZip,
+  ZipEntry,
+  ZipFormatError,
+} from "./zip";
+
+// Garage exports. Version 1 was a single JSON file with every image inlined
+// as a data URL. Version 2 is a zip: manifest.json lists the rides and each
+// image sits next to it under images/. Imports read either and bring the
+// rides up to the current ZombieRide shape.
+
+export const ARCHIVE_FORMAT = "mason-garage";
+export const ARCHIVE_VERSION = 2;
+const MANIFEST = "manifest.json";
+
+/** Thrown when a file can't be read as a garage archive at all. */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveError";
+  }
+}
+
+interface ArchiveHeader {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+}
+
+export interface GarageArchiveV1 extends ArchiveHeader {
+  version: 1;
+  /** Each ride carries its image as a data URL. */
+  rides: Array<ZombieRide & { image: string }>;
+}
+
+export interface GarageManifest extends ArchiveHeader {
+  version: 2;
+  /** Each ride names its image file inside the zip. */
+  rides: Array<ZombieRide & { imageFile: string }>;
+}
+
+export interface ImportedRide {
+  ride: ZombieRide;
+  image: Blob;
+}
+
+export interface ParsedArchive {
+  version: number;
+  exportedAt: string;
+  rides: ImportedRide[];
+  /** Rides dropped because they failed validation or lost their image. */
+  invalid: number;
+}
+
+export const exportGarageArchive = async (
+  entries: ImportedRide[]
+): Promise<Blob> => {
+  const rides: GarageManifest["rides"] = [];
+  const images: ZipEntry[] = [];
+  for (const { ride, image } of entries) {
+    const imageFile = `images/${ride.id}.${extensionForMimeType(image.type)}`;
+    // The bin is local housekeeping; exported rides arrive live.
+    rides.push({ ...ride, deletedAt: null, imageFile });
+    images.push({
+      name: imageFile,
+      data: image,
+      modified: new Date(ride.createdAt),
+    });
+  }
+  const manifest: GarageManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    rides,
+  };
+  return createZip([
+    { name: MANIFEST, data: JSON.stringify(manifest, null, 2) },
+    ...images,
+  ]);
+};
+
+type Files = Map<string, Uint8Array>;
+type RawRide = Record<string, unknown>;
+
+// Where each version keeps a ride's image. Everything else about a ride is
+// read the same way for every version.
+const IMAGE_READERS: Record<
+  number,
+  (ride: RawRide, files: Files) => Promise<Blob | null>
+> = {
+  1: async (ride) =>
+    typeof ride.image === "string" && ride.image.startsWith("data:image/")
+      ? dataUrlToBlob(ride.image)
+      : null,
+  2: async (ride, files) => {
+    const path = typeof ride.imageFile === "string" ? ride.imageFile : "";
+    const data = files.get(path);
+    return data
+      ? new Blob([data], { type: mimeTypeForExtension(path) })
+      : null;
+  },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const optional = (value: unknown, check: (value: unknown) => boolean) =>
+  value === undefined || check(value);
+
+const isString = (value: unknown) => typeof value === "string";
+const isStringOrNull = (value: unknown) => value === null || isString(value);
+
+// Required fields must be there; optional ones, if present, must have the
+// right type. Older archives simply lack the newer fields.
+const isValidRide = (raw: unknown): raw is RawRide & { id: string } =>
+  isObject(raw) &&
+  typeof raw.id === "string" &&
+  raw.id.trim() !== "" &&
+  typeof raw.mode === "string" &&
+  typeof raw.createdAt === "string" &&
+  !Number.isNaN(Date.parse(raw.createdAt)) &&
+  optional(raw.name, isString) &&
+  optional(raw.prompt, isString) &&
+  optional(raw.customDetails, isString) &&
+  optional(raw.provider, isString) &&
+  optional(raw.model, isString) &&
+  optional(raw.parentId, isStringOrNull) &&
+  optional(raw.sourceThumbnail, (v) =>
+    v === null || (isString(v) && (v as string).startsWith("data:image/"))
+  ) &&
+  optional(
+    raw.tags,
+    (v) => Array.isArray(v) && v.every((tag) => typeof tag === "string")
+  ) &&
+  optional(raw.favourite, (v) => typeof v === "boolean") &&
+  optional(
+    raw.bestDriveScore,
+    (v) => typeof v === "number" && Number.isFinite(v) && v >= 0
+  );
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ArchiveError("The archive's manifest isn't valid JSON.");
+  }
+};
+
+/**
+ * Reads a garage export of any version. Throws ArchiveError when the file
+ * isn't a garage archive; individual bad rides are dropped and counted.
+ */
+export const readGarageArchive = async (
+  file: Blob
+): Promise<ParsedArchive> => {
+  let files: Files = new Map();
+  let raw: unknown;
+  if (await looksLikeZip(file)) {
+    try {
+      files = await readZip(file);
+    } catch (e) {
+      if (e instanceof ZipFormatError) throw new ArchiveError(e.message);
+      throw e;
+    }
+    const manifest = files.get(MANIFEST);
+    if (!manifest) {
+      throw new ArchiveError(
+        "This zip has no manifest.json, so it isn't a garage export."
+      );
+    }
+    raw = parseJson(new TextDecoder().decode(manifest));
+  } else {
+    raw = parseJson(await file.text());
+  }
+
+  if (!isObject(raw) || raw.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveError("This file isn't a garage export.");
+  }
+  const { version } = raw;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    throw new ArchiveError("The archive has no valid version number.");
+  }
+  if (version > ARCHIVE_VERSION) {
+    throw new ArchiveError(
+      "This archive comes from a newer version of the app. Update and try again."
+    );
+  }
+  if (!Array.isArray(raw.rides)) {
+    throw new ArchiveError("The archive has no list of rides.");
+  }
+
+  const readImage = IMAGE_READERS[version];
+  const rides: ImportedRide[] = [];
+  const seen = new Set<string>();
+  let invalid = 0;
+  for (const item of raw.rides) {
+    if (!isValidRide(item) || seen.has(item.id)) {
+      invalid++;
+      continue;
+    }
+    const image = await readImage(item, files).catch(() => null);
+    if (!image) {
+      invalid++;
+      continue;
+    }
+    seen.add(item.id);
+    const { image: _, imageFile: __, ...meta } = item;
+    rides.push({
+      ride: normalizeRide({
+        ...meta,
+        deletedAt: null,
+        imageBytes: image.size,
+      }),
+      image,
+    });
+  }
+
+  return {
+    version,
+    exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+    rides,
+    invalid,
+  };
+};
+
+export type ClashPolicy = "skip" | "replace" | "duplicate";
+
+export const CLASH_POLICIES: Record<ClashPolicy, string> = {
+  skip: "Skip them and keep the garage's copy",
+  replace: "Replace the garage's copy with the imported one",
+  duplicate: "Keep both as separate rides",
+};
+
+export const countClashes = (
+  rides: ImportedRide[],
+  existingIds: Set<string>
+) =>
+  rides.filter(({ ride }) => existingIds.has(ride.id)).length;
+
+export interface ImportPlan {
+  records: ImportedRide[];
+  /** Ids already in the garage that the import overwrites. */
+  replacedIds: string[];
+  skipped: number;
+}
+
+export const planImport = (
+  rides: ImportedRide[],
+  existingIds: Set<string>,
+  policy: ClashPolicy
+): ImportPlan => {
+  const clashes = rides.filter(({ ride }) => existingIds.has(ride.id));
+  if (policy === "skip") {
+    return {
+      records: rides.filter(({ ride }) => !existingIds.has(ride.id)),
+      replacedIds: [],
+      skipped: clashes.length,
+    };
+  }
+  if (policy === "replace") {
+    return {
+      records: rides,
+      replacedIds: clashes.map(({ ride }) => ride.id),
+      skipped: 0,
+    };
+  }
+
+  // Copies get fresh ids, and lineage inside the archive follows them so a
+  // duplicated refinement points at its duplicated parent.
+  const newIds = new Map(
+    clashes.map(({ ride }) => [ride.id, crypto.randomUUID()])
+  );
+  return {
+    records: rides.map(({ ride, image }) => ({
+      ride: {
+        ...ride,
+        id: newIds.get(ride.id) ?? ride.id,
+        parentId:
+          ride.parentId === null
+            ? null
+            : newIds.get(ride.parentId) ?? ride.parentId,
+      },
+      image,
+    })),
+    replacedIds: [],
+    skipped: 0,
+  };
+};
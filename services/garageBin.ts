@@ -0,0 +1,42 @@
+import { ZombieRide } from "../types";
+
+// Deleting a ride only moves it to the recently deleted bin. Rides left
+// there longer than this are removed for good the next time the garage
+// loads or anything else is deleted.
+export const BIN_RETENTION_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_MS = BIN_RETENTION_DAYS * DAY_MS;
+
+export const isInBin = (ride: ZombieRide) => ride.deletedAt !== null;
+
+export const moveToBin = <T extends ZombieRide>(
+  ride: T,
+  now = new Date()
+): T => ({
+  ...ride,
+  deletedAt: now.toISOString(),
+});
+
+export const restoreFromBin = <T extends ZombieRide>(ride: T): T => ({
+  ...ride,
+  deletedAt: null,
+});
+
+export const expiredBinRides = <T extends ZombieRide>(
+  rides: T[],
+  now = Date.now()
+): T[] =>
+  rides.filter(
+    (ride) =>
+      ride.deletedAt !== null &&
+      now - Date.parse(ride.deletedAt) >= RETENTION_MS
+  );
+
+/** Days left before a binned ride is removed for good (at least 0). */
+export const daysLeftInBin = (ride: ZombieRide, now = Date.now()) =>
+  ride.deletedAt === null
+    ? BIN_RETENTION_DAYS
+    : Math.max(
+        0,
+        Math.ceil((Date.parse(ride.deletedAt) + RETENTION_MS - now) / DAY_MS)
+      );
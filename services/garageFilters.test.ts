@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { ZombieRide } from "../types";
+import {
+  applyGarageFilters,
+  DEFAULT_FILTERS,
+  GarageFilters,
+  normalizeTag,
+} from "./garageFilters";
+import { DEFAULT_COMMANDER } from "./commander";
+import { BUILT_IN_MODES } from "./modeRegistry";
+import { buildGenerationPrompt } from "./prompts";
+
+const ride = (overrides: Partial<ZombieRide>): ZombieRide => ({
+  id: "ride",
+  name: "",
+  mode: "survival",
+  prompt: "",
+  customDetails: "",
+  sourceThumbnail: null,
+  provider: "mock",
+  model: "mock",
+  createdAt: "2026-03-01T12:00:00.000Z",
+  parentId: null,
+  tags: [],
+  favourite: false,
+  bestDriveScore: 0,
+  deletedAt: null,
+  imageBytes: 0,
+  attributes: null,
+  stats: { topSpeed: 5, acceleration: 5, armour: 5, handling: 5, ramPower: 5 },
+  ...overrides,
+});
+
+const filter = (rides: ZombieRide[], filters: Partial<GarageFilters>) =>
+  applyGarageFilters(rides, { ...DEFAULT_FILTERS, ...filters }, BUILT_IN_MODES)
+    .map((r) => r.id);
+
+describe("applyGarageFilters", () => {
+  it("searches what the user typed, not the prompt boilerplate", () => {
+    const rides = [BUILT_IN_MODES[0], BUILT_IN_MODES[3]].map((mode, i) =>
+      ride({
+        id: `ride${i}`,
+        mode: mode.id,
+        prompt: buildGenerationPrompt(mode, "", DEFAULT_COMMANDER),
+      })
+    );
+    rides.push(ride({ id: "named", name: "Zombie Basher" }));
+    rides.push(ride({ id: "asked", customDetails: "Heavy armour plates" }));
+
+    expect(filter(rides, { query: "zombie" })).toEqual(["named"]);
+    expect(filter(rides, { query: " HEAVY " })).toEqual(["asked"]);
+    expect(filter(rides, { query: "street art" })).toEqual(["ride1"]);
+  });
+
+  it("combines mode, tag, favourite and date filters", () => {
+    const rides = [
+      ride({ id: "a", tags: ["red"], favourite: true }),
+      ride({ id: "b", tags: ["red"], mode: "bunker" }),
+      ride({ id: "c", createdAt: "2026-02-01T12:00:00.000Z" }),
+    ];
+    expect(filter(rides, { tag: "red" })).toEqual(["a", "b"]);
+    expect(filter(rides, { tag: "red", modeId: "bunker" })).toEqual(["b"]);
+    expect(filter(rides, { favouritesOnly: true })).toEqual(["a"]);
+    expect(filter(rides, { to: "2026-02-28" })).toEqual(["c"]);
+    expect(filter(rides, { from: "2026-03-01" })).toEqual(["a", "b"]);
+  });
+
+  it("sorts by name with unnamed rides last", () => {
+    const rides = [
+      ride({ id: "none" }),
+      ride({ id: "b", name: "bravo" }),
+      ride({ id: "a", name: "Alpha" }),
+    ];
+    expect(filter(rides, { sort: "name" })).toEqual(["a", "b", "none"]);
+  });
+});
+
+describe("normalizeTag", () => {
+  it("lower-cases and tidies, or gives null", () => {
+    expect(normalizeTag("  Rusty   Red!! ")).toBe("rusty red");
+    expect(normalizeTag("!!!")).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import { ModeId, MutationMode, ZombieRide } from "../types";
+import { modeLabel } from "./modeRegistry";
+
+export type GarageSort = "newest" | "oldest" | "name" | "best_drive";
+
+export const GARAGE_SORTS: Record<GarageSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  name: "Name",
+  best_drive: "Best drive score",
+};
+
+export interface GarageFilters {
+  /**
+   * Matched against what the user wrote (name and special requests) and the
+   * mode's label; the full prompt is mostly boilerplate every ride shares.
+   */
+  query: string;
+  modeId: ModeId | null;
+  tag: string | null;
+  /** yyyy-mm-dd from an <input type="date">, inclusive; "" for open. */
+  from: string;
+  to: string;
+  favouritesOnly: boolean;
+  sort: GarageSort;
+}
+
+export const DEFAULT_FILTERS: GarageFilters = {
+  query: "",
+  modeId: null,
+  tag: null,
+  from: "",
+  to: "",
+  favouritesOnly: false,
+  sort: "newest",
+};
+
+export const isFiltering = (filters: GarageFilters) =>
+  filters.query.trim() !== "" ||
+  filters.modeId !== null ||
+  filters.tag !== null ||
+  filters.from !== "" ||
+  filters.to !== "" ||
+  filters.favouritesOnly;
+
+export const TAG_MAX_LENGTH = 24;
+
+/** Lower-cased and tidied; null if nothing usable is left. */
+export const normalizeTag = (tag: string): string | null => {
+  const tidy = tag
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N} -]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, TAG_MAX_LENGTH);
+  return tidy || null;
+};
+
+export const allTags = (rides: ZombieRide[]) =>
+  [...new Set(rides.flatMap((ride) => ride.tags))].sort();
+
+// Date inputs give local calendar days; compare against local midnight.
+const dayStart = (day: string) => new Date(`${day}T00:00:00`).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const matches = (
+  ride: ZombieRide,
+  filters: GarageFilters,
+  modes: MutationMode[]
+) => {
+  const query = filters.query.trim().toLowerCase();
+  if (
+    query &&
+    ![ride.name, ride.customDetails, modeLabel(modes, ride.mode)].some(
+      (field) => field.toLowerCase().includes(query)
+    )
+  ) {
+    return false;
+  }
+  if (filters.modeId !== null && ride.mode !== filters.modeId) return false;
+  if (filters.tag !== null && !ride.tags.includes(filters.tag)) return false;
+  if (filters.favouritesOnly && !ride.favourite) return false;
+
+  const created = Date.parse(ride.createdAt);
+  if (filters.from && created < dayStart(filters.from)) return false;
+  if (filters.to && created >= dayStart(filters.to) + DAY_MS) return false;
+  return true;
+};
+
+// Unnamed rides go last.
+const byName = (a: ZombieRide, b: ZombieRide) =>
+  !a.name || !b.name
+    ? Number(!a.name) - Number(!b.name)
+    : a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+
+const COMPARE: Record<GarageSort, (a: ZombieRide, b: ZombieRide) => number> = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  oldest: (a, b) => a.createdAt.localeCompare(b.createdAt),
+  name: byName,
+  best_drive: (a, b) => b.bestDriveScore - a.bestDriveScore,
+};
+
+export const applyGarageFilters = <T extends ZombieRide>(
+  rides: T[],
+  filters: GarageFilters,
+  modes: MutationMode[]
+): T[] =>
+  rides
+    .filter((ride) => matches(ride, filters, modes))
+    .sort(COMPARE[filters.sort]);
+
+const STORAGE_KEY = "mason_garage_filters_v1";
+
+const isSort = (value: unknown): value is GarageSort =>
+  typeof value === "string" && value in GARAGE_SORTS;
+
+export const loadGarageFilters = (): GarageFilters => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_FILTERS;
+    const raw = JSON.parse(saved) as Record<string, unknown>;
+    const text = (value: unknown) => (typeof value === "string" ? value : "");
+    return {
+      query: text(raw.query),
+      modeId: text(raw.modeId) || null,
+      tag: text(raw.tag) || null,
+      from: text(raw.from),
+      to: text(raw.to),
+      favouritesOnly: raw.favouritesOnly === true,
+      sort: isSort(raw.sort) ? raw.sort : DEFAULT_FILTERS.sort,
+    };
+  } catch (e) {
+    console.warn("Could not load garage filters from localStorage", e);
+    return DEFAULT_FILTERS;
+  }
+};
+
+export const saveGarageFilters = (filters: GarageFilters) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(filters));
+  } catch (e) {
+    console.warn("Could not save garage filters", e);
+  }
+};
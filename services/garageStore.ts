@@ -0,0 +1,294 @@
+import { ZombieRide } from "../types";
+import { dataUrlToBlob } from "./blobs";
+import { normalizeModeId } from "./modeRegistry";
+import { deriveRideStats, parseRideAttributes } from "./rideStats";
+
+// The garage lives in IndexedDB: ride metadata in one store, image blobs in
+// another keyed by the same id. Listing the garage only reads metadata.
+
+const DB_NAME = "mason_garage";
+const DB_VERSION = 1;
+const RIDES = "rides";
+const IMAGES = "images";
+
+// The v1 garage kept everything, base64 images included, in one
+// localStorage entry. It is moved over on first load and then removed.
+const LEGACY_STORAGE_KEY = "mason_zombie_garage_v1";
+
+/** Thrown when a ride doesn't fit in the browser's storage quota. */
+export class GarageFullError extends Error {
+  constructor(message = "The garage is full.") {
+    super(message);
+    this.name = "GarageFullError";
+  }
+}
+
+// Metadata as stored: `savedAt` keeps the listing in save order.
+type StoredRide = ZombieRide & { savedAt: number };
+
+const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && err.name === "QuotaExceededError";
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    const fail = () =>
+      reject(
+        isQuotaError(tx.error)
+          ? new GarageFullError()
+          : tx.error ?? new Error("Garage transaction aborted.")
+      );
+    tx.onerror = fail;
+    tx.onabort = fail;
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(RIDES)) {
+        db.createObjectStore(RIDES, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(IMAGES)) {
+        db.createObjectStore(IMAGES);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+};
+
+const toRide = ({ savedAt, ...ride }: StoredRide): ZombieRide => ride;
+
+const text = (value: unknown) => (typeof value === "string" ? value : "");
+
+// v1 stored toLocaleString() output, which only sometimes parses back.
+const toIsoDate = (value: unknown, fallback: number) => {
+  const parsed = typeof value === "string" ? Date.parse(value) : NaN;
+  return new Date(Number.isNaN(parsed) ? fallback : parsed).toISOString();
+};
+
+// Fills in fields that older records (v1 or early IndexedDB) don't have.
+const normalizeStored = (raw: Record<string, unknown>): StoredRide => {
+  const savedAt = typeof raw.savedAt === "number" ? raw.savedAt : Date.now();
+  const mode = normalizeModeId(text(raw.mode));
+  const attributes = parseRideAttributes(raw.attributes);
+  return {
+    id: text(raw.id) || crypto.randomUUID(),
+    name: text(raw.name),
+    mode,
+    prompt: text(raw.prompt),
+    customDetails: text(raw.customDetails),
+    sourceThumbnail: text(raw.sourceThumbnail) || null,
+    provider: text(raw.provider) || "unknown",
+    model: text(raw.model) || "unknown",
+    createdAt: toIsoDate(raw.createdAt, savedAt),
+    parentId: text(raw.parentId) || null,
+    tags: Array.isArray(raw.tags)
+      ? raw.tags.filter((tag): tag is string => typeof tag === "string")
+      : [],
+    favourite: raw.favourite === true,
+    bestDriveScore:
+      typeof raw.bestDriveScore === "number" ? raw.bestDriveScore : 0,
+    deletedAt: text(raw.deletedAt) || null,
+    imageBytes: typeof raw.imageBytes === "number" ? raw.imageBytes : 0,
+    attributes,
+    // Always re-derived, so rebalancing applies to rides already saved.
+    stats: deriveRideStats(mode, attributes),
+    savedAt,
+  };
+};
+
+/** Fills in defaults for a ride record from outside the store. */
+export const normalizeRide = (raw: Record<string, unknown>): ZombieRide =>
+  toRide(normalizeStored(raw));
+
+const listStored = async (): Promise<StoredRide[]> => {
+  const db = await openDb();
+  const rides = await promisify<Record<string, unknown>[]>(
+    db.transaction(RIDES).objectStore(RIDES).getAll()
+  );
+  return rides.map(normalizeStored).sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export interface StorageReport {
+  /** Bytes used by this origin. */
+  used: number;
+  /** Bytes the browser will let this origin use. */
+  quota: number;
+  remaining: number;
+}
+
+/** Null when the browser can't say (older Safari, some private modes). */
+export const getStorageReport = async (): Promise<StorageReport | null> => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    if (!quota) return null;
+    return { used: usage, quota, remaining: Math.max(0, quota - usage) };
+  } catch {
+    return null;
+  }
+};
+
+const runMigration = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return 0;
+
+  let legacy: Array<Record<string, unknown>>;
+  try {
+    legacy = JSON.parse(saved);
+    if (!Array.isArray(legacy)) throw new Error("Not a list of rides");
+  } catch (e) {
+    console.warn("Dropping unreadable v1 garage", e);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return 0;
+  }
+
+  const now = Date.now();
+  const records: Array<{ ride: StoredRide; image: Blob }> = [];
+  for (const [index, item] of legacy.entries()) {
+    if (typeof item?.image !== "string") continue;
+    const image = await dataUrlToBlob(item.image);
+    const { image: _, ...meta } = item;
+    records.push({
+      // v1 was newest first; keep that order.
+      ride: normalizeStored({
+        ...meta,
+        imageBytes: image.size,
+        savedAt: now - index,
+      }),
+      image,
+    });
+  }
+
+  const db = await openDb();
+  const tx = db.transaction([RIDES, IMAGES], "readwrite");
+  for (const { ride, image } of records) {
+    tx.objectStore(RIDES).put(ride);
+    tx.objectStore(IMAGES).put(image, ride.id);
+  }
+  await completion(tx);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return records.length;
+};
+
+let migration: Promise<number> | null = null;
+
+/**
+ * Moves a v1 localStorage garage into IndexedDB and resolves with the number
+ * of rides moved. The old entry is only removed once every ride has been
+ * written, so a failed migration is retried on the next load.
+ */
+export const migrateLegacyGarage = () => {
+  migration ??= runMigration().catch((err) => {
+    migration = null;
+    throw err;
+  });
+  return migration;
+};
+
+/** Newest first. */
+export const listRides = async (): Promise<ZombieRide[]> =>
+  (await listStored()).map(toRide);
+
+export const getRideImage = async (id: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const image = await promisify<Blob | undefined>(
+    db.transaction(IMAGES).objectStore(IMAGES).get(id)
+  );
+  return image ?? null;
+};
+
+/** Throws GarageFullError when the ride would not fit. */
+export const putRide = async (ride: ZombieRide, image: Blob) => {
+  // Checking up front gives a clean error instead of relying on every
+  // browser to abort the transaction with a QuotaExceededError.
+  const report = await getStorageReport();
+  if (report && report.remaining < image.size) throw new GarageFullError();
+
+  const db = await openDb();
+  const tx = db.transaction([RIDES, IMAGES], "readwrite");
+  const stored: StoredRide = { ...ride, savedAt: Date.now() };
+  tx.objectStore(RIDES).put(stored);
+  tx.objectStore(IMAGES).put(image, ride.id);
+  await completion(tx);
+};
+
+/**
+ * Writes a batch of rides in one transaction, listed in the given order
+ * above everything already saved. Rides with an existing id are replaced.
+ * Throws GarageFullError when the batch would not fit.
+ */
+export const putRides = async (
+  records: Array<{ ride: ZombieRide; image: Blob }>
+) => {
+  if (records.length === 0) return;
+  const bytes = records.reduce((sum, { image }) => sum + image.size, 0);
+  const report = await getStorageReport();
+  if (report && report.remaining < bytes) throw new GarageFullError();
+
+  const db = await openDb();
+  const tx = db.transaction([RIDES, IMAGES], "readwrite");
+  const now = Date.now();
+  for (const [index, { ride, image }] of records.entries()) {
+    const stored: StoredRide = { ...ride, savedAt: now - index };
+    tx.objectStore(RIDES).put(stored);
+    tx.objectStore(IMAGES).put(image, ride.id);
+  }
+  await completion(tx);
+};
+
+/** Updates metadata only; images are left alone. */
+export const updateRides = async (rides: ZombieRide[]) => {
+  if (rides.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(RIDES, "readwrite");
+  const done = completion(tx);
+  const store = tx.objectStore(RIDES);
+  for (const ride of rides) {
+    const existing = await promisify<Record<string, unknown> | undefined>(
+      store.get(ride.id)
+    );
+    if (!existing) {
+      tx.abort();
+      await done.catch(() => undefined);
+      throw new Error(`No ride with id ${ride.id}`);
+    }
+    store.put({ ...ride, savedAt: normalizeStored(existing).savedAt });
+  }
+  await done;
+};
+
+export const updateRide = (ride: ZombieRide) => updateRides([ride]);
+
+export const deleteRides = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction([RIDES, IMAGES], "readwrite");
+  for (const id of ids) {
+    tx.objectStore(RIDES).delete(id);
+    tx.objectStore(IMAGES).delete(id);
+  }
+  await completion(tx);
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+};
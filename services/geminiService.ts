@@ -1,88 +1,121 @@
-import { GoogleGenAI } from "@google/genai";
-import { GenerationMode } from "../types";
+import type {
+  CreateZombieVehicleBody,
+  CreateZombieVehicleError,
+  CreateZombieVehicleResponse,
+} from "../api/createZombieVehicle";
+import { createAbortError } from "./abort";
+import { errorFromResponse, GenerationError } from "./generationErrors";
+import { toPromptMode } from "./modeRegistry";
+import { parseRideAttributes } from "./rideStats";
+import type { ImageProvider } from "./imageProvider";
 
-// ✅ Vite-style env var (browser-safe)
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY as string;
+const ENDPOINT = "/api/createZombieVehicle";
 
-if (!apiKey) {
-  throw new Error("Missing VITE_GEMINI_API_KEY – check Vercel env vars!");
+type ApiPayload =
+  | (Partial<CreateZombieVehicleResponse> & Partial<CreateZombieVehicleError>)
+  | null;
+
+interface PostOptions {
+  signal?: AbortSignal;
+  onUploadProgress: (progress: number) => void;
+  onUploaded: () => void;
 }
 
-// Initialize the client
-const ai = new GoogleGenAI({ apiKey });
+// XHR rather than fetch: it is the only browser API that reports upload
+// progress, and it aborts cleanly.
+const postJson = (
+  url: string,
+  body: unknown,
+  { signal, onUploadProgress, onUploaded }: PostOptions
+) =>
+  new Promise<{ status: number; payload: ApiPayload }>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
 
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
 
-const getSystemInstruction = (mode: GenerationMode): string => {
-  return `You are a legendary visual effects artist for a Zombie Apocalypse movie. 
-  Your client is "COMMANDER MASON", the leader of the resistance.
-  
-  YOUR GOAL: Transform the input vehicle into a battle-ready machine.
-  
-  MANDATORY REQUIREMENT: The name "MASON" must be visible on the vehicle or background.
-  - As a metal plate welded to the door.
-  - As a neon sign reflecting in a puddle.
-  - As graffiti spray-painted on the armour.
-  
-  STYLE GUIDES:
-  - ${GenerationMode.SURVIVAL}: "Mad Max" vibes. Spikes, rusty metal, miniguns on roof, heavy off-road tires. The text "MASON" is welded steel.
-  - ${GenerationMode.INFECTED}: The car is driving through a horde of zombies. Blood splatter, green slime, cracked glass. The text "MASON" is scratched into the dirt.
-  - ${GenerationMode.BUNKER}: High-tech underground garage. Clean lighting, wall of guns in background. "MASON" is a digital holographic sign.
-  - ${GenerationMode.GRAFFITI}: Comic book / Street art style. Vibrant toxic greens and purples. "MASON" is a huge wild-style graffiti tag.
-  `;
-};
+    xhr.open("POST", url);
+    xhr.setRequestHeader("Content-Type", "application/json");
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onUploadProgress(e.loaded / e.total);
+    };
+    xhr.upload.onload = onUploaded;
+    xhr.onload = () => {
+      let payload: ApiPayload = null;
+      try {
+        payload = JSON.parse(xhr.responseText);
+      } catch {
+        // non-JSON error page – fall through with a null payload
+      }
+      resolve({ status: xhr.status, payload });
+    };
+    xhr.onerror = () =>
+      reject(
+        new GenerationError("network", "Network error reaching the garage.")
+      );
+    xhr.onabort = () => reject(createAbortError());
+    xhr.onloadend = () => signal?.removeEventListener("abort", onAbort);
 
-export const generateZombieCar = async (
-  base64Image: string,
-  mode: GenerationMode,
-  customDetails: string
-): Promise<string> => {
-  try {
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
+    signal?.addEventListener("abort", onAbort, { once: true });
+    xhr.send(JSON.stringify(body));
+  });
 
-    const prompt = `Movie poster quality. Transform this specific car into a ${mode} zombie apocalypse vehicle.
-    
-    The license plate or door MUST say "MASON".
-    
-    Details to include: ${customDetails || "Heavy armor, machine guns, zombie gore on the bumper"}.
-    
-    Make it look epic, scary, and cool. 8k resolution, cinematic lighting.`;
+// Talks to our own server route; the Gemini key never reaches the browser.
+export const geminiProvider: ImageProvider = {
+  id: "gemini",
+  label: "Gemini (gemini-2.5-flash-image)",
+  async generate({
+    image,
+    mode,
+    customDetails,
+    commander,
+    instruction,
+    signal,
+    onProgress,
+  }) {
+    const body: CreateZombieVehicleBody = {
+      image,
+      mode: mode.id,
+      // The server knows the built-ins; user-made modes travel with the request.
+      customMode: mode.builtIn ? undefined : toPromptMode(mode),
+      customDetails,
+      commander,
+      instruction,
+    };
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: cleanBase64
-            }
-          },
-          {
-            text: prompt
-          }
-        ]
-      },
-      config: {
-        systemInstruction: getSystemInstruction(mode),
-        temperature: 0.8, 
-      }
+    let uploaded = false;
+    const markUploaded = () => {
+      if (uploaded) return;
+      uploaded = true;
+      onProgress?.({ phase: "generating" });
+    };
+
+    onProgress?.({ phase: "uploading", progress: 0 });
+    const { status, payload } = await postJson(ENDPOINT, body, {
+      signal,
+      onUploadProgress: (progress) =>
+        onProgress?.({ phase: "uploading", progress }),
+      onUploaded: markUploaded,
     });
+    // Some browsers skip upload.onload for small bodies.
+    markUploaded();
 
-    // Extract image from response
-    const candidates = response.candidates;
-    if (candidates && candidates.length > 0) {
-      const parts = candidates[0].content.parts;
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-          return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-        }
-      }
+    if (status < 200 || status >= 300) {
+      throw errorFromResponse(status, payload);
     }
-    
-    throw new Error("No image generated by the model.");
 
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw error;
-  }
-};
\ No newline at end of file
+    if (!payload?.image) {
+      throw new GenerationError("no_image", "No image generated by the model.");
+    }
+
+    return {
+      imageUrl: payload.image,
+      model: payload.model ?? "unknown",
+      promptUsed: payload.prompt ?? "",
+      attributes: parseRideAttributes(payload.attributes),
+    };
+  },
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyError,
+  errorFromResponse,
+  GenerationError,
+} from "./generationErrors";
+
+const withStatus = (message: string, status: number) =>
+  Object.assign(new Error(message), { status });
+
+describe("classifyError", () => {
+  it("sorts SDK and network failures into kinds", () => {
+    const cases: [unknown, string][] = [
+      [withStatus("Too many", 429), "rate_limit"],
+      [new Error("RESOURCE_EXHAUSTED: quota"), "rate_limit"],
+      [withStatus("Forbidden", 403), "bad_key"],
+      [new Error("API key not valid. Please pass a valid key."), "bad_key"],
+      [new Error("Request payload size exceeds the limit"), "input_too_large"],
+      [new Error("Response was blocked due to SAFETY"), "safety_block"],
+      [withStatus("Internal", 500), "network"],
+      [new TypeError("fetch failed"), "network"],
+      ["something odd", "unknown"],
+    ];
+    for (const [error, kind] of cases) {
+      expect(classifyError(error).kind).toBe(kind);
+    }
+  });
+
+  it("keeps the message and status, and passes typed errors through", () => {
+    const classified = classifyError(withStatus("Too many", 429));
+    expect(classified).toMatchObject({ message: "Too many", status: 429 });
+    const typed = new GenerationError("no_image", "empty");
+    expect(classifyError(typed)).toBe(typed);
+  });
+
+  it("only retries rate limits and network trouble", () => {
+    expect(new GenerationError("rate_limit", "").retryable).toBe(true);
+    expect(new GenerationError("network", "").retryable).toBe(true);
+    expect(new GenerationError("bad_key", "").retryable).toBe(false);
+    expect(new GenerationError("unknown", "").retryable).toBe(false);
+  });
+});
+
+describe("errorFromResponse", () => {
+  it("trusts the server's code", () => {
+    const error = errorFromResponse(422, {
+      error: "Nope",
+      code: "safety_block",
+    });
+    expect(error).toMatchObject({
+      kind: "safety_block",
+      message: "Nope",
+      status: 422,
+    });
+  });
+
+  it("falls back on the status when there is no usable code", () => {
+    expect(errorFromResponse(413, null).kind).toBe("input_too_large");
+    expect(errorFromResponse(429, { code: "made_up" }).kind).toBe(
+      "rate_limit"
+    );
+    expect(errorFromResponse(0, null).kind).toBe("network");
+    expect(errorFromResponse(401, null).kind).toBe("bad_key");
+    expect(errorFromResponse(400, null)).toMatchObject({
+      kind: "unknown",
+      message: "Garage server error (400)",
+    });
+  });
+});
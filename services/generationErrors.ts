@@ -0,0 +1,119 @@
+// Typed failures for ride generation. Shared by the /api route (which
+// classifies SDK errors and sends `code`) and the browser (which rebuilds a
+// GenerationError from the response), so keep it environment-neutral.
+
+export type GenerationErrorKind =
+  | "rate_limit"
+  | "safety_block"
+  | "no_image"
+  | "input_too_large"
+  | "network"
+  | "bad_key"
+  | "unknown";
+
+const RETRYABLE_KINDS: GenerationErrorKind[] = ["rate_limit", "network"];
+
+const HTTP_STATUS: Record<GenerationErrorKind, number> = {
+  rate_limit: 429,
+  safety_block: 422,
+  no_image: 502,
+  input_too_large: 413,
+  network: 503,
+  bad_key: 500,
+  unknown: 500,
+};
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly status?: number;
+
+  constructor(kind: GenerationErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = "GenerationError";
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export const isGenerationErrorKind = (
+  value: unknown
+): value is GenerationErrorKind =>
+  typeof value === "string" && value in HTTP_STATUS;
+
+export const statusForKind = (kind: GenerationErrorKind) => HTTP_STATUS[kind];
+
+const messageOf = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/** Best-effort mapping of whatever the SDK / network threw onto a kind. */
+export const classifyError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const message = messageOf(error);
+  const status =
+    typeof (error as { status?: unknown })?.status === "number"
+      ? (error as { status: number }).status
+      : undefined;
+  const text = message.toLowerCase();
+
+  if (
+    status === 429 ||
+    text.includes("resource_exhausted") ||
+    text.includes("quota") ||
+    text.includes("rate limit")
+  ) {
+    return new GenerationError("rate_limit", message, status);
+  }
+  if (
+    status === 401 ||
+    status === 403 ||
+    text.includes("api key not valid") ||
+    text.includes("api_key_invalid") ||
+    text.includes("permission_denied")
+  ) {
+    return new GenerationError("bad_key", message, status);
+  }
+  if (
+    status === 413 ||
+    text.includes("too large") ||
+    text.includes("payload size")
+  ) {
+    return new GenerationError("input_too_large", message, status);
+  }
+  if (text.includes("safety") || text.includes("blocked")) {
+    return new GenerationError("safety_block", message, status);
+  }
+  if (
+    (status !== undefined && status >= 500) ||
+    text.includes("fetch failed") ||
+    text.includes("network") ||
+    text.includes("econnreset") ||
+    text.includes("etimedout")
+  ) {
+    return new GenerationError("network", message, status);
+  }
+  return new GenerationError("unknown", message, status);
+};
+
+/** Rebuild a typed error from an /api/createZombieVehicle error response. */
+export const errorFromResponse = (
+  status: number,
+  payload: { error?: string; code?: unknown } | null
+): GenerationError => {
+  const message = payload?.error || `Garage server error (${status})`;
+  if (isGenerationErrorKind(payload?.code)) {
+    return new GenerationError(payload.code, message, status);
+  }
+  if (status === 413) {
+    return new GenerationError("input_too_large", message, status);
+  }
+  if (status === 429) return new GenerationError("rate_limit", message, status);
+  if (status === 0 || status === 502 || status === 503 || status === 504) {
+    return new GenerationError("network", message, status);
+  }
+  return classifyError(Object.assign(new Error(message), { status }));
+};
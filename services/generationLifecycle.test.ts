@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { GenerationEvent, LoadingState } from "../types";
+import {
+  applyGenerationEvent,
+  IDLE,
+  isBusy,
+  phaseMessage,
+} from "./generationLifecycle";
+
+const run = (events: GenerationEvent[], from: LoadingState = IDLE) =>
+  events.reduce<LoadingState>(
+    (state, event) => applyGenerationEvent(state, event, "Ripley"),
+    from
+  );
+
+describe("applyGenerationEvent", () => {
+  it("walks a request from queued to done", () => {
+    const events: GenerationEvent[] = [
+      { phase: "queued" },
+      { phase: "uploading", progress: 0.5 },
+      { phase: "uploading", progress: 1 },
+      { phase: "generating" },
+      { phase: "decoding" },
+      { phase: "done" },
+    ];
+    const states = events.map((_, i) => run(events.slice(0, i + 1)));
+    expect(states.map((s) => s.phase)).toEqual(events.map((e) => e.phase));
+    expect(states[1].progress).toBe(0.5);
+    expect(states[3].message).toBe('Painting "RIPLEY" insignia on doors...');
+    expect(isBusy(states[4])).toBe(true);
+    expect(isBusy(states[5])).toBe(false);
+  });
+
+  it("ignores events that don't follow from the current phase", () => {
+    const generating = run([{ phase: "queued" }, { phase: "generating" }]);
+    expect(run([{ phase: "uploading", progress: 0.2 }], generating)).toBe(
+      generating
+    );
+    expect(run([{ phase: "done" }], generating)).toBe(generating);
+    expect(run([{ phase: "generating" }])).toBe(IDLE);
+  });
+
+  it("can fail from any busy phase and start again afterwards", () => {
+    const failed = run([
+      { phase: "queued" },
+      { phase: "uploading", progress: 0 },
+      { phase: "failed", error: new Error("boom") },
+    ]);
+    expect(failed.phase).toBe("failed");
+    expect(run([{ phase: "queued" }], failed).phase).toBe("queued");
+  });
+});
+
+describe("phaseMessage", () => {
+  it("falls back to the default commander", () => {
+    expect(phaseMessage("generating")).toBe(
+      'Painting "MASON" insignia on doors...'
+    );
+    expect(phaseMessage("idle")).toBe("");
+  });
+});
@@ -0,0 +1,72 @@
+import { GenerationEvent, LoadingPhase, LoadingState } from "../types";
+import { DEFAULT_COMMANDER } from "./commander";
+
+export const IDLE: LoadingState = { phase: "idle", message: "" };
+
+// Allowed edges of the loading state machine. Terminal phases can only start
+// a new request (or go back to idle).
+const TRANSITIONS: Record<LoadingPhase, LoadingPhase[]> = {
+  idle: ["queued"],
+  queued: ["uploading", "generating", "failed", "cancelled"],
+  uploading: ["uploading", "generating", "failed", "cancelled"],
+  generating: ["decoding", "failed", "cancelled"],
+  decoding: ["done", "failed", "cancelled"],
+  done: ["idle", "queued"],
+  failed: ["idle", "queued"],
+  cancelled: ["idle", "queued"],
+};
+
+const BUSY_PHASES: LoadingPhase[] = [
+  "queued",
+  "uploading",
+  "generating",
+  "decoding",
+];
+
+// "{name}" is replaced with the commander's name.
+export const PHASE_MESSAGES: Record<LoadingPhase, string> = {
+  idle: "",
+  queued: "Waiting for a free welding bay...",
+  uploading: "Scanning chassis integrity...",
+  generating: `Painting "{name}" insignia on doors...`,
+  decoding: "Finalizing survival modifications...",
+  done: "Ride ready.",
+  failed: "Garage malfunction.",
+  cancelled: "Mutation cancelled.",
+};
+
+// Steps shown in the progress stepper, in order.
+export const PROGRESS_PHASES: LoadingPhase[] = BUSY_PHASES;
+
+export const phaseMessage = (
+  phase: LoadingPhase,
+  commanderName = DEFAULT_COMMANDER.name
+) => PHASE_MESSAGES[phase].replace("{name}", commanderName.toUpperCase());
+
+export const isBusy = (state: LoadingState) =>
+  BUSY_PHASES.includes(state.phase);
+
+export const canTransition = (from: LoadingPhase, to: LoadingPhase) =>
+  TRANSITIONS[from].includes(to);
+
+export const transition = (
+  state: LoadingState,
+  phase: LoadingPhase,
+  progress?: number,
+  commanderName?: string
+): LoadingState => {
+  if (!canTransition(state.phase, phase)) return state;
+  return { phase, message: phaseMessage(phase, commanderName), progress };
+};
+
+export const applyGenerationEvent = (
+  state: LoadingState,
+  event: GenerationEvent,
+  commanderName?: string
+): LoadingState =>
+  transition(
+    state,
+    event.phase,
+    event.phase === "uploading" ? event.progress : undefined,
+    commanderName
+  );
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import { encodeGif, GifFrame } from "./gifEncoder";
+import { createSeededRandom } from "./random";
+
+// A plain GIF LZW decoder, written from the spec rather than the encoder,
+// that also reports how wide the codes got and how often the table reset.
+const decodeLzw = (minCodeSize: number, data: Uint8Array) => {
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  let next = end + 1;
+  const reset = () => {
+    table = Array.from({ length: clear }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    next = end + 1;
+  };
+  reset();
+
+  const pixels: number[] = [];
+  let maxCodeSize = codeSize;
+  let clears = 0;
+  let prev: number[] | null = null;
+  let bit = 0;
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) {
+      code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    }
+    if (code === clear) {
+      reset();
+      clears++;
+      prev = null;
+      continue;
+    }
+    if (code === end) return { pixels, maxCodeSize, clears, ended: true };
+
+    let entry: number[];
+    if (prev === null) entry = table[code];
+    else if (code < next) entry = table[code];
+    else if (code === next) entry = [...prev, prev[0]];
+    else throw new Error(`Bad code ${code} at ${pixels.length}`);
+    if (prev !== null && next < 4096) {
+      table[next++] = [...prev, entry[0]];
+      if (next === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    maxCodeSize = Math.max(maxCodeSize, codeSize);
+    pixels.push(...entry);
+    prev = entry;
+  }
+  return { pixels, maxCodeSize, clears, ended: false };
+};
+
+interface DecodedFrame {
+  delay: number;
+  width: number;
+  height: number;
+  pixels: number[];
+  maxCodeSize: number;
+  clears: number;
+}
+
+const decodeGif = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe("GIF89a");
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  const tableSize = 3 * (2 << (bytes[10] & 7));
+  let pos = 13 + (bytes[10] & 0x80 ? tableSize : 0);
+
+  const subBlocks = () => {
+    const parts: number[] = [];
+    while (bytes[pos] !== 0) {
+      parts.push(...bytes.subarray(pos + 1, pos + 1 + bytes[pos]));
+      pos += 1 + bytes[pos];
+    }
+    pos++;
+    return Uint8Array.from(parts);
+  };
+
+  const frames: DecodedFrame[] = [];
+  let delay = 0;
+  let loops = false;
+  for (;;) {
+    const introducer = bytes[pos++];
+    if (introducer === 0x3b) break;
+    if (introducer === 0x21) {
+      const label = bytes[pos++];
+      if (label === 0xf9) delay = view.getUint16(pos + 2, true);
+      const body = subBlocks();
+      if (label === 0xff) {
+        const name = String.fromCharCode(...body.subarray(0, 11));
+        loops ||= name === "NETSCAPE2.0";
+      }
+    } else if (introducer === 0x2c) {
+      const frameWidth = view.getUint16(pos + 4, true);
+      const frameHeight = view.getUint16(pos + 6, true);
+      pos += 9;
+      const minCodeSize = bytes[pos++];
+      const lzw = decodeLzw(minCodeSize, subBlocks());
+      expect(lzw.ended).toBe(true);
+      frames.push({
+        delay,
+        width: frameWidth,
+        height: frameHeight,
+        pixels: lzw.pixels,
+        maxCodeSize: lzw.maxCodeSize,
+        clears: lzw.clears,
+      });
+    } else {
+      throw new Error(`Unexpected block 0x${introducer.toString(16)}`);
+    }
+  }
+  return { width, height, loops, frames, bytesLeft: bytes.length - pos };
+};
+
+// Palette index → RGBA that the encoder maps straight back to it.
+const colour = (index: number) => [
+  Math.round((Math.floor(index / 42) * 255) / 5),
+  Math.round(((Math.floor(index / 6) % 7) * 255) / 6),
+  Math.round(((index % 6) * 255) / 5),
+  255,
+];
+
+const frameOf = (indices: number[], delay: number): GifFrame => ({
+  data: Uint8ClampedArray.from(indices.flatMap(colour)),
+  delay,
+});
+
+const bytesOf = async (blob: Blob) =>
+  new Uint8Array(await blob.arrayBuffer());
+
+describe("encodeGif", () => {
+  it("round-trips noise through code-size growth and resets", async () => {
+    const rand = createSeededRandom(7);
+    const size = 128;
+    const indices = Array.from({ length: size * size }, () =>
+      Math.floor(rand() * 252)
+    );
+    const gif = encodeGif(size, size, [frameOf(indices, 8)]);
+    expect(gif.type).toBe("image/gif");
+
+    const decoded = decodeGif(await bytesOf(gif));
+    expect(decoded.bytesLeft).toBe(0);
+    const [frame] = decoded.frames;
+    expect(frame.pixels).toEqual(indices);
+    // Codes grew from 9 bits all the way to 12, and the full table reset.
+    expect(frame.maxCodeSize).toBe(12);
+    expect(frame.clears).toBeGreaterThan(1);
+  });
+
+  it("round-trips long runs of one colour", async () => {
+    const indices = new Array(200 * 100).fill(17);
+    const decoded = decodeGif(
+      await bytesOf(encodeGif(200, 100, [frameOf(indices, 4)]))
+    );
+    expect(decoded.frames[0].pixels).toEqual(indices);
+  });
+
+  it("writes every frame with its delay and loops forever", async () => {
+    const first = [0, 1, 2, 3, 4, 5];
+    const second = [251, 250, 249, 248, 247, 246];
+    const decoded = decodeGif(
+      await bytesOf(
+        encodeGif(3, 2, [frameOf(first, 10), frameOf(second, 250)])
+      )
+    );
+    expect(decoded).toMatchObject({ width: 3, height: 2, loops: true });
+    expect(
+      decoded.frames.map(({ delay, width, height, pixels }) => ({
+        delay,
+        width,
+        height,
+        pixels,
+      }))
+    ).toEqual([
+      { delay: 10, width: 3, height: 2, pixels: first },
+      { delay: 250, width: 3, height: 2, pixels: second },
+    ]);
+  });
+
+  it("handles a single-pixel frame", async () => {
+    const gif = encodeGif(1, 1, [frameOf([9], 1)]);
+    const decoded = decodeGif(await bytesOf(gif));
+    expect(decoded.frames[0].pixels).toEqual([9]);
+  });
+});
@@ -0,0 +1,173 @@
+// Minimal animated GIF encoder. Every frame shares one fixed 6×7×6 colour
+// cube (252 colours), which is rough on gradients but needs no per-frame
+// quantiser and keeps this small enough not to need a dependency.
+
+export interface GifFrame {
+  /** RGBA pixels, as from getImageData. */
+  data: Uint8ClampedArray;
+  /** Hundredths of a second. */
+  delay: number;
+}
+
+const R_LEVELS = 6;
+const G_LEVELS = 7;
+const B_LEVELS = 6;
+
+const PALETTE = (() => {
+  const table = new Uint8Array(256 * 3);
+  let i = 0;
+  for (let r = 0; r < R_LEVELS; r++) {
+    for (let g = 0; g < G_LEVELS; g++) {
+      for (let b = 0; b < B_LEVELS; b++) {
+        table[i++] = Math.round((r * 255) / (R_LEVELS - 1));
+        table[i++] = Math.round((g * 255) / (G_LEVELS - 1));
+        table[i++] = Math.round((b * 255) / (B_LEVELS - 1));
+      }
+    }
+  }
+  return table;
+})();
+
+const indexPixels = (rgba: Uint8ClampedArray) => {
+  const out = new Uint8Array(rgba.length / 4);
+  for (let p = 0, i = 0; p < out.length; p++, i += 4) {
+    const r = Math.round((rgba[i] * (R_LEVELS - 1)) / 255);
+    const g = Math.round((rgba[i + 1] * (G_LEVELS - 1)) / 255);
+    const b = Math.round((rgba[i + 2] * (B_LEVELS - 1)) / 255);
+    out[p] = (r * G_LEVELS + g) * B_LEVELS + b;
+  }
+  return out;
+};
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private buf = new Uint8Array(4096);
+  private pos = 0;
+
+  byte(value: number) {
+    if (this.pos === this.buf.length) this.flush();
+    this.buf[this.pos++] = value;
+  }
+
+  word(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  text(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  private flush() {
+    this.chunks.push(this.buf.slice(0, this.pos));
+    this.pos = 0;
+  }
+
+  blob(type: string) {
+    this.flush();
+    return new Blob(this.chunks, { type });
+  }
+}
+
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4095;
+
+// Variable-width LZW, packed LSB first into 255-byte sub-blocks.
+const writeLzw = (out: ByteWriter, pixels: Uint8Array) => {
+  const clear = 1 << MIN_CODE_SIZE;
+  const end = clear + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let next = end + 1;
+  let dict = new Map<number, number>();
+
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.bytes(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  out.byte(MIN_CODE_SIZE);
+  emit(clear);
+  let prefix = pixels[0];
+  for (let i = 1; i < pixels.length; i++) {
+    const pixel = pixels[i];
+    const key = (prefix << 8) | pixel;
+    const known = dict.get(key);
+    if (known !== undefined) {
+      prefix = known;
+      continue;
+    }
+    emit(prefix);
+    if (next <= MAX_CODE) {
+      dict.set(key, next++);
+      if (next > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      emit(clear);
+      dict = new Map();
+      codeSize = MIN_CODE_SIZE + 1;
+      next = end + 1;
+    }
+    prefix = pixel;
+  }
+  emit(prefix);
+  emit(end);
+  if (bitCount > 0) block.push(bits & 0xff);
+  if (block.length > 0) {
+    out.byte(block.length);
+    out.bytes(block);
+  }
+  out.byte(0);
+};
+
+export const encodeGif = (
+  width: number,
+  height: number,
+  frames: GifFrame[]
+): Blob => {
+  const out = new ByteWriter();
+  out.text("GIF89a");
+  out.word(width);
+  out.word(height);
+  out.byte(0xf7); // global colour table, 8 bits per channel, 256 entries
+  out.byte(0);
+  out.byte(0);
+  out.bytes(PALETTE);
+
+  // Loop forever (NETSCAPE2.0 extension).
+  out.bytes([0x21, 0xff, 11]);
+  out.text("NETSCAPE2.0");
+  out.bytes([3, 1, 0, 0, 0]);
+
+  for (const frame of frames) {
+    out.bytes([0x21, 0xf9, 4, 0]);
+    out.word(frame.delay);
+    out.bytes([0, 0]);
+
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(0);
+    writeLzw(out, indexPixels(frame.data));
+  }
+
+  out.byte(0x3b);
+  return out.blob("image/gif");
+};
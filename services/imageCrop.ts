@@ -0,0 +1,175 @@
+import { mimeTypeOfDataUrl } from "./imagePreprocess";
+
+// Crop rectangles are stored as fractions (0–1) of the image so they survive
+// the preview being shown at any size.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type CropCorner = "nw" | "ne" | "sw" | "se";
+
+export interface AspectPreset {
+  id: string;
+  label: string;
+  /** width / height in pixels, or null for free-form. */
+  ratio: number | null;
+}
+
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { id: "free", label: "Free", ratio: null },
+  { id: "16:9", label: "16:9", ratio: 16 / 9 },
+  { id: "4:3", label: "4:3", ratio: 4 / 3 },
+  { id: "1:1", label: "1:1", ratio: 1 },
+  { id: "3:4", label: "3:4", ratio: 3 / 4 },
+];
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const MIN_SIZE = 0.05;
+
+const clamp = (v: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, v));
+
+/**
+ * Largest crop with the given pixel ratio that fits the image, scaled by
+ * `fill` and centred – the "centre the vehicle" framing.
+ */
+export const centredCrop = (
+  imageAspect: number,
+  ratio: number | null,
+  fill = 1
+): CropRect => {
+  let width = 1;
+  let height = 1;
+  if (ratio) {
+    // Normalised height for a normalised width of 1.
+    const k = imageAspect / ratio;
+    if (k <= 1) height = k;
+    else width = 1 / k;
+  }
+  width *= fill;
+  height *= fill;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+export const moveCrop = (rect: CropRect, dx: number, dy: number): CropRect => ({
+  ...rect,
+  x: clamp(rect.x + dx, 0, 1 - rect.width),
+  y: clamp(rect.y + dy, 0, 1 - rect.height),
+});
+
+/** Drag `corner` to the pointer at (px, py), keeping the opposite corner. */
+export const resizeCrop = (
+  rect: CropRect,
+  corner: CropCorner,
+  px: number,
+  py: number,
+  ratio: number | null,
+  imageAspect: number
+): CropRect => {
+  const west = corner === "nw" || corner === "sw";
+  const north = corner === "nw" || corner === "ne";
+  const anchorX = west ? rect.x + rect.width : rect.x;
+  const anchorY = north ? rect.y + rect.height : rect.y;
+  const maxW = west ? anchorX : 1 - anchorX;
+  const maxH = north ? anchorY : 1 - anchorY;
+
+  let width = clamp(west ? anchorX - px : px - anchorX, MIN_SIZE, maxW);
+  let height = clamp(north ? anchorY - py : py - anchorY, MIN_SIZE, maxH);
+
+  if (ratio) {
+    const k = imageAspect / ratio;
+    height = width * k;
+    if (height > maxH) {
+      height = maxH;
+      width = height / k;
+    }
+  }
+
+  return {
+    x: west ? anchorX - width : anchorX,
+    y: north ? anchorY - height : anchorY,
+    width,
+    height,
+  };
+};
+
+/** Re-fit an existing crop to a new ratio around its centre. */
+export const applyAspect = (
+  rect: CropRect,
+  ratio: number | null,
+  imageAspect: number
+): CropRect => {
+  if (!ratio) return rect;
+  const k = imageAspect / ratio;
+  let width = rect.width;
+  let height = width * k;
+  if (height > 1) {
+    height = 1;
+    width = height / k;
+  }
+  const cx = rect.x + rect.width / 2;
+  const cy = rect.y + rect.height / 2;
+  return {
+    x: clamp(cx - width / 2, 0, 1 - width),
+    y: clamp(cy - height / 2, 0, 1 - height),
+    width,
+    height,
+  };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not read the image."));
+    img.src = src;
+  });
+
+const encode = (canvas: HTMLCanvasElement, sourceUrl: string) =>
+  canvas.toDataURL(mimeTypeOfDataUrl(sourceUrl), 0.92);
+
+/** Rotate by quarter turns (positive = clockwise). */
+export const rotateImage = async (
+  dataUrl: string,
+  quarterTurns: number
+): Promise<string> => {
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  if (turns === 0) return dataUrl;
+
+  const img = await loadImage(dataUrl);
+  const swap = turns % 2 === 1;
+  const canvas = document.createElement("canvas");
+  canvas.width = swap ? img.naturalHeight : img.naturalWidth;
+  canvas.height = swap ? img.naturalWidth : img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((turns * Math.PI) / 2);
+  ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+  return encode(canvas, dataUrl);
+};
+
+export const cropImage = async (
+  dataUrl: string,
+  rect: CropRect
+): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const sx = Math.round(rect.x * img.naturalWidth);
+  const sy = Math.round(rect.y * img.naturalHeight);
+  const sw = Math.max(1, Math.round(rect.width * img.naturalWidth));
+  const sh = Math.max(1, Math.round(rect.height * img.naturalHeight));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = sw;
+  canvas.height = sh;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh);
+  return encode(canvas, dataUrl);
+};
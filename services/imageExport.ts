@@ -0,0 +1,150 @@
+import { OutputImageType } from "./imagePreprocess";
+import { embedMetadata, ImageMetadata } from "./imageMetadata";
+
+// Turns the image on screen into the file the user downloads or shares:
+// re-encoded in the chosen format, optionally watermarked, with text
+// metadata embedded.
+
+export interface DownloadSettings {
+  format: OutputImageType;
+  /** 0–1, used for JPEG and WebP. */
+  quality: number;
+  watermark: boolean;
+  /** Empty means the default, which names the commander's garage. */
+  watermarkText: string;
+}
+
+export const DOWNLOAD_FORMATS: Record<OutputImageType, string> = {
+  "image/png": "PNG",
+  "image/jpeg": "JPEG",
+  "image/webp": "WebP",
+};
+
+export const DEFAULT_DOWNLOAD_SETTINGS: DownloadSettings = {
+  format: "image/png",
+  quality: 0.92,
+  watermark: false,
+  watermarkText: "",
+};
+
+export const WATERMARK_MAX_LENGTH = 60;
+
+export const isLossy = (format: OutputImageType) => format !== "image/png";
+
+export const defaultWatermark = (commanderName: string) =>
+  `${commanderName}'s Zombie Garage`;
+
+export interface ExportOptions {
+  type: OutputImageType;
+  quality: number;
+  /** Drawn in the bottom-right corner; null for none. */
+  watermark: string | null;
+  metadata: ImageMetadata;
+}
+
+const decode = (image: Blob | string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = typeof image === "string" ? image : URL.createObjectURL(image);
+    const release = () => {
+      if (typeof image !== "string") URL.revokeObjectURL(url);
+    };
+    const img = new Image();
+    img.onload = () => {
+      release();
+      resolve(img);
+    };
+    img.onerror = () => {
+      release();
+      reject(new Error("Could not read the image."));
+    };
+    img.src = url;
+  });
+
+const drawWatermark = (
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  text: string
+) => {
+  const size = Math.max(12, Math.round(Math.min(w, h) * 0.035));
+  const margin = size;
+  ctx.save();
+  ctx.font = `700 ${size}px 'Roboto Mono', monospace`;
+  ctx.textAlign = "right";
+  ctx.textBaseline = "bottom";
+  ctx.shadowColor = "rgba(0, 0, 0, 0.8)";
+  ctx.shadowBlur = size / 3;
+  ctx.fillStyle = "rgba(255, 255, 255, 0.75)";
+  ctx.fillText(text, w - margin, h - margin, w - margin * 2);
+  ctx.restore();
+};
+
+export const exportImage = async (
+  image: Blob | string,
+  { type, quality, watermark, metadata }: ExportOptions
+): Promise<Blob> => {
+  const img = await decode(image);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+
+  // JPEG has no alpha; flatten onto the app's black.
+  if (type === "image/jpeg") {
+    ctx.fillStyle = "#000";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(img, 0, 0);
+  if (watermark) drawWatermark(ctx, canvas.width, canvas.height, watermark);
+
+  const encoded = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode the image.")),
+      type,
+      quality
+    )
+  );
+  // Browsers without a WebP encoder hand back PNG; the blob's type says
+  // which, and the metadata and file extension follow it.
+  return embedMetadata(encoded, metadata);
+};
+
+const STORAGE_KEY = "mason_download_settings_v1";
+
+const isFormat = (value: unknown): value is OutputImageType =>
+  typeof value === "string" && value in DOWNLOAD_FORMATS;
+
+export const loadDownloadSettings = (): DownloadSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_DOWNLOAD_SETTINGS;
+    const raw = JSON.parse(saved) as Record<string, unknown>;
+    return {
+      format: isFormat(raw.format)
+        ? raw.format
+        : DEFAULT_DOWNLOAD_SETTINGS.format,
+      quality:
+        typeof raw.quality === "number" && raw.quality > 0 && raw.quality <= 1
+          ? raw.quality
+          : DEFAULT_DOWNLOAD_SETTINGS.quality,
+      watermark: raw.watermark === true,
+      watermarkText:
+        typeof raw.watermarkText === "string"
+          ? raw.watermarkText.slice(0, WATERMARK_MAX_LENGTH)
+          : "",
+    };
+  } catch (e) {
+    console.warn("Could not load download settings from localStorage", e);
+    return DEFAULT_DOWNLOAD_SETTINGS;
+  }
+};
+
+export const saveDownloadSettings = (settings: DownloadSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save download settings", e);
+  }
+};
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import {
+  embedJpegExif,
+  embedMetadata,
+  embedPngText,
+  ImageMetadata,
+} from "./imageMetadata";
+import { crc32 } from "./zip";
+
+const META: ImageMetadata = {
+  title: "Bonecrusher",
+  mode: "bunker",
+  prompt: "Armour plates",
+  createdAt: "2026-03-01T12:00:00.000Z",
+  author: "Mason",
+  software: "Mason's Zombie Ride Creator 0.0.0",
+};
+
+const ascii = (text: string) => Uint8Array.from(text, (c) => c.charCodeAt(0));
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const chunk = (type: string, data: Uint8Array) => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(ascii(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+// A 1×1 PNG's structure; the pixel data doesn't need to decode.
+const PNG = concat(
+  Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a),
+  chunk("IHDR", Uint8Array.of(0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0)),
+  chunk("IDAT", Uint8Array.of(1, 2, 3)),
+  chunk("IEND", new Uint8Array())
+);
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+  crcOk: boolean;
+}
+
+const readChunks = (png: Uint8Array) => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Chunk[] = [];
+  for (let pos = 8; pos < png.length; ) {
+    const length = view.getUint32(pos);
+    const body = png.subarray(pos + 4, pos + 8 + length);
+    chunks.push({
+      type: String.fromCharCode(...body.subarray(0, 4)),
+      data: body.subarray(4),
+      crcOk: view.getUint32(pos + 8 + length) === crc32(body),
+    });
+    pos += 12 + length;
+  }
+  return chunks;
+};
+
+describe("embedPngText", () => {
+  it("puts the text chunks straight after IHDR with valid CRCs", () => {
+    const chunks = readChunks(embedPngText(PNG, META));
+    expect(chunks.map((c) => c.type)).toEqual([
+      "IHDR",
+      "tEXt",
+      "tEXt",
+      "tEXt",
+      "tEXt",
+      "tEXt",
+      "tEXt",
+      "IDAT",
+      "IEND",
+    ]);
+    expect(chunks.every((c) => c.crcOk)).toBe(true);
+    expect(new TextDecoder("latin1").decode(chunks[1].data)).toBe(
+      "Title\0Bonecrusher"
+    );
+  });
+
+  it("uses iTXt for text outside Latin-1 and skips empty fields", () => {
+    const chunks = readChunks(
+      embedPngText(PNG, { ...META, title: "Ζόμπι", prompt: "" })
+    );
+    const types = chunks.map((c) => c.type);
+    expect(types.filter((t) => t === "tEXt")).toHaveLength(4);
+    const title = chunks.find((c) => c.type === "iTXt");
+    expect(title?.crcOk).toBe(true);
+    expect(new TextDecoder().decode(title?.data)).toBe(
+      "Title\0\0\0\0\0Ζόμπι"
+    );
+  });
+
+  it("leaves other bytes alone", () => {
+    const jpeg = Uint8Array.of(0xff, 0xd8, 0xff, 0xd9);
+    expect(embedPngText(jpeg, META)).toBe(jpeg);
+  });
+});
+
+const SOI = Uint8Array.of(0xff, 0xd8);
+const JFIF = concat(
+  Uint8Array.of(0xff, 0xe0, 0x00, 0x10),
+  ascii("JFIF\0"),
+  Uint8Array.of(1, 1, 0, 0, 1, 0, 1, 0, 0)
+);
+const REST = Uint8Array.of(0xff, 0xdb, 0x00, 0x03, 0x00, 0xff, 0xd9);
+
+const app1At = (jpeg: Uint8Array, at: number) => {
+  const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength);
+  expect(view.getUint16(at)).toBe(0xffe1);
+  const length = view.getUint16(at + 2);
+  const payload = jpeg.subarray(at + 4, at + 2 + length);
+  return { payload, end: at + 2 + length };
+};
+
+describe("embedJpegExif", () => {
+  it("inserts APP1 after the JFIF segment", () => {
+    const out = embedJpegExif(concat(SOI, JFIF, REST), META);
+    expect(out.subarray(0, 2 + JFIF.length)).toEqual(concat(SOI, JFIF));
+
+    const { payload, end } = app1At(out, 2 + JFIF.length);
+    expect(String.fromCharCode(...payload.subarray(0, 8))).toBe(
+      "Exif\0\0MM"
+    );
+    expect(out.subarray(end)).toEqual(REST);
+    expect(new TextDecoder().decode(payload)).toContain("Bonecrusher");
+  });
+
+  it("inserts APP1 straight after SOI when there's no JFIF", () => {
+    const out = embedJpegExif(concat(SOI, REST), META);
+    const { end } = app1At(out, 2);
+    expect(out.subarray(end)).toEqual(REST);
+  });
+
+  it("writes a well-formed IFD0", () => {
+    const out = embedJpegExif(concat(SOI, REST), META);
+    const { payload } = app1At(out, 2);
+    const tiff = payload.subarray(6);
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    expect(view.getUint32(4)).toBe(8);
+    const count = view.getUint16(8);
+    const tags = Array.from({ length: count }, (_, i) =>
+      view.getUint16(10 + i * 12)
+    );
+    expect(tags).toEqual([0x010d, 0x010e, 0x0131, 0x0132, 0x013b]);
+    // Artist, stored out of line as NUL-terminated ASCII.
+    const artist = 10 + 4 * 12;
+    const length = view.getUint32(artist + 4);
+    const offset = view.getUint32(artist + 8);
+    expect(
+      new TextDecoder().decode(tiff.subarray(offset, offset + length))
+    ).toBe("Mason\0");
+  });
+});
+
+describe("embedMetadata", () => {
+  it("passes formats without metadata support through", async () => {
+    const webp = new Blob([Uint8Array.of(1, 2, 3)], { type: "image/webp" });
+    expect(await embedMetadata(webp, META)).toBe(webp);
+  });
+
+  it("keeps the image type", async () => {
+    const png = new Blob([PNG], { type: "image/png" });
+    const out = await embedMetadata(png, META);
+    expect(out.type).toBe("image/png");
+    expect(out.size).toBeGreaterThan(PNG.length);
+  });
+});
@@ -0,0 +1,183 @@
+import { crc32 } from "./zip";
+
+// Text metadata for downloaded images: PNG gets tEXt chunks (iTXt for text
+// that isn't Latin-1), JPEG gets an EXIF APP1 segment. Other formats are
+// passed through untouched.
+
+export interface ImageMetadata {
+  title: string;
+  mode: string;
+  prompt: string;
+  /** ISO date. */
+  createdAt: string;
+  author: string;
+  software: string;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// Signature plus the IHDR chunk, which must come first.
+const PNG_IHDR_END = 8 + 8 + 13 + 4;
+
+const latin1 = (text: string) =>
+  Uint8Array.from(text, (ch) => ch.charCodeAt(0));
+const isLatin1 = (text: string) => /^[\x00-\xff]*$/.test(text);
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const body = concat([latin1(type), data]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(body, 4);
+  view.setUint32(8 + data.length, crc32(body));
+  return chunk;
+};
+
+const pngTextChunk = (keyword: string, text: string) => {
+  if (isLatin1(text)) {
+    return pngChunk(
+      "tEXt",
+      concat([latin1(keyword), Uint8Array.of(0), latin1(text)])
+    );
+  }
+  // keyword, no compression, empty language and translated keyword
+  return pngChunk(
+    "iTXt",
+    concat([
+      latin1(keyword),
+      Uint8Array.of(0, 0, 0, 0, 0),
+      new TextEncoder().encode(text),
+    ])
+  );
+};
+
+const isPng = (bytes: Uint8Array) =>
+  PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+// Keywords from the PNG spec where one fits.
+const pngEntries = (meta: ImageMetadata): Array<[string, string]> => [
+  ["Title", meta.title],
+  ["Description", meta.prompt],
+  ["Mode", meta.mode],
+  ["Author", meta.author],
+  ["Creation Time", meta.createdAt],
+  ["Software", meta.software],
+];
+
+export const embedPngText = (bytes: Uint8Array, meta: ImageMetadata) => {
+  if (!isPng(bytes)) return bytes;
+  const chunks = pngEntries(meta)
+    .filter(([, text]) => text)
+    .map(([keyword, text]) => pngTextChunk(keyword, text));
+  return concat([
+    bytes.subarray(0, PNG_IHDR_END),
+    ...chunks,
+    bytes.subarray(PNG_IHDR_END),
+  ]);
+};
+
+// EXIF wants "YYYY:MM:DD HH:MM:SS" in local time.
+const exifDate = (iso: string) => {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const date = [d.getFullYear(), d.getMonth() + 1, d.getDate()].map(pad);
+  const time = [d.getHours(), d.getMinutes(), d.getSeconds()].map(pad);
+  return `${date.join(":")} ${time.join(":")}`;
+};
+
+// A JPEG segment tops out at 64 KB; long prompts are cut to fit.
+const MAX_EXIF_TEXT = 16 * 1024;
+
+/** TIFF IFD0 with ASCII entries, big-endian. Tags must be in ascending order. */
+const buildExif = (fields: Array<[number, string]>) => {
+  const encoder = new TextEncoder();
+  const values = fields.map(([tag, text]) => ({
+    tag,
+    bytes: concat([
+      encoder.encode(text).subarray(0, MAX_EXIF_TEXT),
+      Uint8Array.of(0),
+    ]),
+  }));
+  const ifdSize = 2 + values.length * 12 + 4;
+  const dataSize = values.reduce(
+    (sum, v) => sum + (v.bytes.length > 4 ? v.bytes.length : 0),
+    0
+  );
+  const tiff = new Uint8Array(8 + ifdSize + dataSize);
+  const view = new DataView(tiff.buffer);
+  view.setUint16(0, 0x4d4d); // "MM"
+  view.setUint16(2, 42);
+  view.setUint32(4, 8);
+  view.setUint16(8, values.length);
+
+  let dataOffset = 8 + ifdSize;
+  values.forEach(({ tag, bytes }, i) => {
+    const entry = 10 + i * 12;
+    view.setUint16(entry, tag);
+    view.setUint16(entry + 2, 2); // ASCII
+    view.setUint32(entry + 4, bytes.length);
+    if (bytes.length <= 4) {
+      tiff.set(bytes, entry + 8);
+    } else {
+      view.setUint32(entry + 8, dataOffset);
+      tiff.set(bytes, dataOffset);
+      dataOffset += bytes.length;
+    }
+  });
+  // next IFD offset stays 0
+  return tiff;
+};
+
+const exifFields = (meta: ImageMetadata): Array<[number, string]> =>
+  (
+    [
+      [0x010d, meta.title], // DocumentName
+      [0x010e, `Mode: ${meta.mode}\n${meta.prompt}`], // ImageDescription
+      [0x0131, meta.software], // Software
+      [0x0132, exifDate(meta.createdAt)], // DateTime
+      [0x013b, meta.author], // Artist
+    ] as Array<[number, string]>
+  ).filter(([, text]) => text);
+
+export const embedJpegExif = (bytes: Uint8Array, meta: ImageMetadata) => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return bytes;
+  const payload = concat([latin1("Exif\0\0"), buildExif(exifFields(meta))]);
+  const segment = new Uint8Array(4 + payload.length);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, 2 + payload.length);
+  segment.set(payload, 4);
+
+  // Keep a JFIF APP0 segment first, as some readers insist.
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+  return concat([
+    bytes.subarray(0, insertAt),
+    segment,
+    bytes.subarray(insertAt),
+  ]);
+};
+
+/** Returns the image with metadata embedded where the format allows it. */
+export const embedMetadata = async (
+  image: Blob,
+  meta: ImageMetadata
+): Promise<Blob> => {
+  const bytes = new Uint8Array(await image.arrayBuffer());
+  let out: Uint8Array;
+  if (image.type === "image/png") out = embedPngText(bytes, meta);
+  else if (image.type === "image/jpeg") out = embedJpegExif(bytes, meta);
+  else return image;
+  return new Blob([out], { type: image.type });
+};
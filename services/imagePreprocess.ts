@@ -0,0 +1,234 @@
+import { dataUrlToBlob } from "./blobs";
+
+// Runs in the browser before anything is sent to a provider: reads the EXIF
+// orientation, downscales to a sane longest edge and re-encodes to a format
+// the model accepts, labelled with the mime type it really has.
+
+export type OutputImageType = "image/jpeg" | "image/png" | "image/webp";
+
+export interface PreprocessOptions {
+  /** Longest edge of the output in pixels. */
+  maxEdge: number;
+  /** Format for photos without transparency. PNG/WebP inputs stay PNG. */
+  outputType: OutputImageType;
+  /** 0–1, used for lossy formats. */
+  quality: number;
+}
+
+export interface PreparedImage {
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  originalBytes: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxEdge: 1536,
+  outputType: "image/jpeg",
+  quality: 0.9,
+};
+
+// Anything above this is almost certainly not a photo and would risk running
+// the tab out of memory while decoding.
+export const MAX_INPUT_BYTES = 40 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|gif|bmp|heic|heif|avif)$/i;
+const HEIC_PATTERN = /heic|heif/i;
+
+export class ImagePreprocessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImagePreprocessError";
+  }
+}
+
+// Some phones hand over HEIC files with an empty `type`, so fall back to the
+// extension before rejecting.
+export const looksLikeImage = (file: File) =>
+  file.type.startsWith("image/") || IMAGE_EXTENSIONS.test(file.name);
+
+const isHeic = (file: File) =>
+  HEIC_PATTERN.test(file.type) || HEIC_PATTERN.test(file.name);
+
+/** EXIF orientation (1–8) of a JPEG, or 1 when absent / not a JPEG. */
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    if ((marker & 0xff00) !== 0xff00) return 1;
+
+    // APP1 with an "Exif\0\0" header
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd0 = tiff + view.getUint32(tiff + 4, little);
+      if (ifd0 + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd0, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd0 + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+    // Start of scan: no more metadata after this.
+    if (marker === 0xffda) return 1;
+    offset += 2 + size;
+  }
+  return 1;
+};
+
+// Modern browsers already rotate by EXIF when decoding; only rotate by hand
+// on the ones that don't, or the photo ends up rotated twice.
+const browserAppliesExifOrientation = () =>
+  typeof CSS !== "undefined" &&
+  CSS.supports?.("image-orientation", "from-image") === true;
+
+const decode = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("decode failed"));
+    };
+    img.src = url;
+  });
+
+// Canvas transform for each EXIF orientation, applied to a w×h source.
+const applyOrientation = (
+  ctx: CanvasRenderingContext2D,
+  orientation: number,
+  w: number,
+  h: number
+) => {
+  switch (orientation) {
+    case 2:
+      ctx.transform(-1, 0, 0, 1, w, 0);
+      break;
+    case 3:
+      ctx.transform(-1, 0, 0, -1, w, h);
+      break;
+    case 4:
+      ctx.transform(1, 0, 0, -1, 0, h);
+      break;
+    case 5:
+      ctx.transform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6:
+      ctx.transform(0, 1, -1, 0, h, 0);
+      break;
+    case 7:
+      ctx.transform(0, -1, -1, 0, h, w);
+      break;
+    case 8:
+      ctx.transform(0, -1, 1, 0, 0, w);
+      break;
+  }
+};
+
+export const mimeTypeOfDataUrl = (dataUrl: string) =>
+  /^data:([^;,]+)/.exec(dataUrl)?.[1] ?? "application/octet-stream";
+
+export const preprocessImage = async (
+  file: File,
+  options: Partial<PreprocessOptions> = {}
+): Promise<PreparedImage> => {
+  const { maxEdge, outputType, quality } = {
+    ...DEFAULT_PREPROCESS_OPTIONS,
+    ...options,
+  };
+
+  if (!looksLikeImage(file)) {
+    throw new ImagePreprocessError(
+      "Please upload a valid image file (JPG, PNG, WebP or HEIC)."
+    );
+  }
+  if (file.size > MAX_INPUT_BYTES) {
+    throw new ImagePreprocessError(
+      "That file is enormous. Please pick a photo under 40MB."
+    );
+  }
+
+  let img: HTMLImageElement;
+  try {
+    img = await decode(file);
+  } catch {
+    throw new ImagePreprocessError(
+      isHeic(file)
+        ? "This browser can't open HEIC photos. Try Safari, or set your camera to 'Most Compatible'."
+        : "Couldn't read that image. Try a different photo."
+    );
+  }
+
+  const orientation = browserAppliesExifOrientation()
+    ? 1
+    : await readExifOrientation(file);
+  const swap = orientation >= 5;
+
+  const srcW = img.naturalWidth;
+  const srcH = img.naturalHeight;
+  const scale = Math.min(1, maxEdge / Math.max(srcW, srcH));
+  const drawW = Math.max(1, Math.round(srcW * scale));
+  const drawH = Math.max(1, Math.round(srcH * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = swap ? drawH : drawW;
+  canvas.height = swap ? drawW : drawH;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new ImagePreprocessError("Canvas is not available.");
+
+  applyOrientation(ctx, orientation, drawW, drawH);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(img, 0, 0, drawW, drawH);
+
+  // Keep transparency for formats that may carry it.
+  const keepsAlpha = file.type === "image/png" || file.type === "image/webp";
+  const dataUrl = canvas.toDataURL(
+    keepsAlpha ? "image/png" : outputType,
+    quality
+  );
+
+  return {
+    dataUrl,
+    // Browsers fall back to PNG for encoders they lack, so read it back.
+    mimeType: mimeTypeOfDataUrl(dataUrl),
+    width: canvas.width,
+    height: canvas.height,
+    originalBytes: file.size,
+  };
+};
+
+// Big enough to regenerate from if the ride is loaded again, small enough to
+// sit in the garage's metadata.
+export const THUMBNAIL_EDGE = 512;
+
+/** Downscaled JPEG copy of an already-prepared image. */
+export const createThumbnail = async (
+  dataUrl: string,
+  maxEdge = THUMBNAIL_EDGE
+): Promise<string> => {
+  const img = await decode(await dataUrlToBlob(dataUrl));
+  const scale = Math.min(1, maxEdge / Math.max(img.width, img.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new ImagePreprocessError("Canvas is not available.");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.8);
+};
@@ -0,0 +1,192 @@
+import {
+  CommanderProfile,
+  GeneratedImageResult,
+  GenerationProgressCallback,
+  MutationMode,
+} from "../types";
+import { DEFAULT_COMMANDER } from "./commander";
+import { createAbortError, isAbortError, throwIfAborted } from "./abort";
+import { geminiProvider } from "./geminiService";
+import { classifyError, GenerationError } from "./generationErrors";
+import { withRetry } from "./retry";
+import { mockProvider } from "./mockProvider";
+
+export interface ImageGenerationRequest {
+  image: string;
+  mode: MutationMode;
+  customDetails: string;
+  commander: CommanderProfile;
+  /** Follow-up edit to apply to `image`, which is then a previous output. */
+  instruction?: string;
+  signal?: AbortSignal;
+  /** Providers report 'uploading' and 'generating'; the wrapper does the rest. */
+  onProgress?: GenerationProgressCallback;
+}
+
+export interface GenerateOptions {
+  /** Validated profile whose name goes on the car; defaults to Mason. */
+  commander?: CommanderProfile;
+  instruction?: string;
+  signal?: AbortSignal;
+  onProgress?: GenerationProgressCallback;
+  /** Provider id; defaults to resolveProviderId(). */
+  provider?: string;
+}
+
+/** What a provider hands back; the wrapper adds its id. */
+export type ProviderResult = Omit<GeneratedImageResult, "provider">;
+
+/**
+ * A backend that can turn an uploaded vehicle photo into a zombie ride.
+ * Providers return a data URL so the UI can show, save and drive the result
+ * without caring where it came from.
+ */
+export interface ImageProvider {
+  id: string;
+  label: string;
+  generate(request: ImageGenerationRequest): Promise<ProviderResult>;
+}
+
+const PROVIDERS: Record<string, ImageProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+export const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+export const listImageProviders = (): ImageProvider[] =>
+  Object.values(PROVIDERS);
+
+// `?provider=mock` wins over VITE_IMAGE_PROVIDER so a single tab (or a CI
+// run) can switch backends without a rebuild.
+export const resolveProviderId = (): string => {
+  const fromQuery =
+    typeof window !== "undefined"
+      ? new URLSearchParams(window.location.search).get("provider")
+      : null;
+  const configured = fromQuery || import.meta.env.VITE_IMAGE_PROVIDER;
+
+  if (configured && PROVIDERS[configured]) return configured;
+  if (configured) {
+    console.warn(
+      `Unknown image provider "${configured}", falling back to ${DEFAULT_PROVIDER_ID}`
+    );
+  }
+  return DEFAULT_PROVIDER_ID;
+};
+
+export const getImageProvider = (id = resolveProviderId()): ImageProvider =>
+  PROVIDERS[id] ?? PROVIDERS[DEFAULT_PROVIDER_ID];
+
+// Cap on requests in flight; extra variants / refinements wait in 'queued'.
+const MAX_CONCURRENT_GENERATIONS = 4;
+let activeGenerations = 0;
+const waitingForSlot: Array<() => void> = [];
+
+const acquireSlot = (signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal);
+    if (activeGenerations < MAX_CONCURRENT_GENERATIONS) {
+      activeGenerations++;
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      waitingForSlot.splice(waitingForSlot.indexOf(start), 1);
+      reject(createAbortError());
+    };
+    const start = () => {
+      signal?.removeEventListener("abort", onAbort);
+      activeGenerations++;
+      resolve();
+    };
+    waitingForSlot.push(start);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const releaseSlot = () => {
+  activeGenerations--;
+  waitingForSlot.shift()?.();
+};
+
+const decodeImage = async (url: string) => {
+  const img = new Image();
+  img.src = url;
+  try {
+    await img.decode();
+  } catch {
+    throw new GenerationError(
+      "no_image",
+      "The garage returned an unreadable image."
+    );
+  }
+};
+
+/**
+ * `base64Image` can be the uploaded photo or any earlier output – refining a
+ * ride just feeds the current render back in with an instruction.
+ *
+ * Emits queued → uploading → generating → decoding → done (or failed) through
+ * `onProgress`. Rate limits and network blips are retried with backoff; any
+ * other failure rejects with a GenerationError. Cancelling via `signal`
+ * rejects with an AbortError and emits no 'failed' event.
+ */
+export const generateZombieCar = async (
+  base64Image: string,
+  mode: MutationMode,
+  customDetails: string,
+  {
+    commander = DEFAULT_COMMANDER,
+    instruction,
+    signal,
+    onProgress,
+    provider: providerId,
+  }: GenerateOptions = {}
+): Promise<GeneratedImageResult> => {
+  try {
+    onProgress?.({ phase: "queued" });
+    await acquireSlot(signal);
+
+    const provider = getImageProvider(providerId);
+    let result: ProviderResult;
+    try {
+      result = await withRetry(
+        () =>
+          provider.generate({
+            image: base64Image,
+            mode,
+            customDetails,
+            commander,
+            instruction,
+            signal,
+            onProgress,
+          }),
+        {
+          signal,
+          onRetry: (error, attempt, delayMs) =>
+            console.warn(
+              `Generation attempt ${attempt} failed (${error.kind}), retrying in ${delayMs}ms`
+            ),
+        }
+      );
+    } finally {
+      releaseSlot();
+    }
+    throwIfAborted(signal);
+
+    onProgress?.({ phase: "decoding" });
+    await decodeImage(result.imageUrl);
+    throwIfAborted(signal);
+
+    onProgress?.({ phase: "done" });
+    return { ...result, provider: provider.id };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    // Logged once here, after retries, rather than on every attempt.
+    console.error("Generation failed:", error);
+    const classified = classifyError(error);
+    onProgress?.({ phase: "failed", error: classified });
+    throw classified;
+  }
+};
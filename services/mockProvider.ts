@@ -0,0 +1,315 @@
+import {
+  ArmourLevel,
+  CommanderProfile,
+  EngineTune,
+  ModeId,
+  MutationMode,
+  RideAttributes,
+} from "../types";
+import { abortableDelay } from "./abort";
+import { buildGenerationPrompt, buildRefinementPrompt } from "./prompts";
+import { toPromptMode } from "./modeRegistry";
+import type { ImageProvider } from "./imageProvider";
+import { createSeededRandom, hashString, RandomSource } from "./random";
+
+// Offline provider: no network, no key. It paints a mode-specific filter,
+// some overlays and the commander's name over the uploaded photo so the rest of
+// the app (save, drive, share) has a real image to work with. The same
+// input always gives the same output.
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_MODEL = "mock-canvas";
+const MAX_EDGE = 1024;
+
+interface MockStyle {
+  filter: string;
+  tint: string;
+  stampColor: string;
+  stampFont: string;
+  overlay: (
+    ctx: CanvasRenderingContext2D,
+    w: number,
+    h: number,
+    rand: RandomSource
+  ) => void;
+}
+
+const drawSpikes = (
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  rand: RandomSource
+) => {
+  ctx.fillStyle = "rgba(120, 113, 108, 0.9)";
+  const count = 14;
+  for (let i = 0; i < count; i++) {
+    const x = (i + 0.5) * (w / count);
+    const spike = 20 + rand() * 30;
+    ctx.beginPath();
+    ctx.moveTo(x - 10, h);
+    ctx.lineTo(x, h - spike);
+    ctx.lineTo(x + 10, h);
+    ctx.closePath();
+    ctx.fill();
+  }
+};
+
+const drawSlime = (
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  _h: number,
+  rand: RandomSource
+) => {
+  ctx.fillStyle = "rgba(132, 204, 22, 0.75)";
+  for (let i = 0; i < 18; i++) {
+    const x = rand() * w;
+    const len = 30 + rand() * 120;
+    const width = 6 + rand() * 14;
+    ctx.fillRect(x, 0, width, len);
+    ctx.beginPath();
+    ctx.arc(x + width / 2, len, width * 0.8, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+const drawScanlines = (
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number
+) => {
+  ctx.fillStyle = "rgba(56, 189, 248, 0.12)";
+  for (let y = 0; y < h; y += 4) {
+    ctx.fillRect(0, y, w, 1);
+  }
+};
+
+const drawSplats = (
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  rand: RandomSource
+) => {
+  const colors = ["rgba(168, 85, 247, 0.6)", "rgba(163, 230, 53, 0.6)"];
+  for (let i = 0; i < 12; i++) {
+    ctx.fillStyle = colors[i % colors.length];
+    ctx.beginPath();
+    ctx.arc(rand() * w, rand() * h, 10 + rand() * 40, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+const STYLES: Record<ModeId, MockStyle> = {
+  survival: {
+    filter: "sepia(0.6) contrast(1.3) saturate(0.8)",
+    tint: "rgba(120, 53, 15, 0.25)",
+    stampColor: "#d6d3d1",
+    stampFont: "900 {size}px Impact, sans-serif",
+    overlay: drawSpikes,
+  },
+  infected: {
+    filter: "hue-rotate(70deg) saturate(1.4) contrast(1.2)",
+    tint: "rgba(22, 101, 52, 0.3)",
+    stampColor: "#a3e635",
+    stampFont: "italic 900 {size}px Impact, sans-serif",
+    overlay: drawSlime,
+  },
+  bunker: {
+    filter: "grayscale(0.5) brightness(0.9) contrast(1.1)",
+    tint: "rgba(14, 116, 144, 0.25)",
+    stampColor: "#67e8f9",
+    stampFont: "700 {size}px 'Roboto Mono', monospace",
+    overlay: (ctx, w, h) => drawScanlines(ctx, w, h),
+  },
+  graffiti: {
+    filter: "saturate(2) contrast(1.4)",
+    tint: "rgba(126, 34, 206, 0.25)",
+    stampColor: "#f0abfc",
+    stampFont: "900 {size}px Creepster, Impact, sans-serif",
+    overlay: drawSplats,
+  },
+};
+
+// User-made modes borrow one of the built-in looks, picked by id so the
+// same mode always renders the same way.
+const styleFor = (id: ModeId): MockStyle => {
+  if (STYLES[id]) return STYLES[id];
+  const looks = Object.values(STYLES);
+  return looks[hashString(id) % looks.length];
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () =>
+      reject(new Error("Mock provider could not read the image."));
+    img.src = src;
+  });
+
+// Refinements keep the previous render and pin a "work order" tag with the
+// instruction to it, so each step in the history is visibly different.
+const renderMockRefinement = (
+  source: HTMLImageElement,
+  w: number,
+  h: number,
+  instruction: string
+): string => {
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+
+  ctx.drawImage(source, 0, 0, w, h);
+
+  const size = Math.max(12, Math.round(Math.min(w, h) * 0.035));
+  const label = `REFIT: ${instruction}`.toUpperCase();
+  ctx.font = `700 ${size}px 'Roboto Mono', monospace`;
+  const textWidth = Math.min(ctx.measureText(label).width, w - size * 2);
+  const rand = createSeededRandom(hashString(instruction));
+  const y = size + rand() * (h * 0.5);
+
+  ctx.fillStyle = "rgba(0,0,0,0.75)";
+  ctx.fillRect(size / 2, y - size, textWidth + size, size * 1.6);
+  ctx.fillStyle = "#facc15";
+  ctx.textBaseline = "middle";
+  ctx.fillText(label, size, y - size * 0.2, w - size * 2);
+
+  return canvas.toDataURL("image/png");
+};
+
+export const renderMockRide = async (
+  image: string,
+  mode: MutationMode,
+  customDetails: string,
+  commander: CommanderProfile,
+  instruction?: string
+): Promise<string> => {
+  const source = await loadImage(image);
+  const scale = Math.min(1, MAX_EDGE / Math.max(source.width, source.height));
+  const w = Math.max(1, Math.round(source.width * scale));
+  const h = Math.max(1, Math.round(source.height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+
+  if (instruction) return renderMockRefinement(source, w, h, instruction);
+
+  const style = styleFor(mode.id);
+  const rand = createSeededRandom(
+    hashString(`${mode.id}|${customDetails}|${image.length}`)
+  );
+
+  ctx.filter = style.filter;
+  ctx.drawImage(source, 0, 0, w, h);
+  ctx.filter = "none";
+
+  ctx.fillStyle = style.tint;
+  ctx.fillRect(0, 0, w, h);
+
+  style.overlay(ctx, w, h, rand);
+
+  // Vignette
+  const vignette = ctx.createRadialGradient(
+    w / 2,
+    h / 2,
+    Math.min(w, h) * 0.3,
+    w / 2,
+    h / 2,
+    Math.max(w, h) * 0.75
+  );
+  vignette.addColorStop(0, "rgba(0,0,0,0)");
+  vignette.addColorStop(1, "rgba(0,0,0,0.7)");
+  ctx.fillStyle = vignette;
+  ctx.fillRect(0, 0, w, h);
+
+  // Name stamp
+  const stamp = commander.name.toUpperCase();
+  const size = Math.round(Math.min(w, h) * 0.16);
+  ctx.save();
+  ctx.translate(w / 2, h * 0.82);
+  ctx.rotate((rand() - 0.5) * 0.2);
+  ctx.font = style.stampFont.replace("{size}", String(size));
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.lineWidth = Math.max(2, size * 0.08);
+  ctx.strokeStyle = "rgba(0,0,0,0.85)";
+  ctx.strokeText(stamp, 0, 0, w * 0.9);
+  ctx.fillStyle = style.stampColor;
+  ctx.fillText(stamp, 0, 0, w * 0.9);
+  ctx.restore();
+
+  return canvas.toDataURL("image/png");
+};
+
+const MOCK_ARMOUR: ArmourLevel[] = ["none", "light", "heavy", "fortress"];
+const MOCK_ENGINES: EngineTune[] = ["stock", "tuned", "supercharged"];
+const MOCK_WEAPONS = [
+  "roof minigun",
+  "flamethrower",
+  "harpoon",
+  "spike launcher",
+];
+
+// Stands in for the JSON the real model sends back; same input, same kit.
+const mockAttributes = (
+  mode: MutationMode,
+  customDetails: string,
+  image: string
+): RideAttributes => {
+  const rand = createSeededRandom(
+    hashString(`attributes|${mode.id}|${customDetails}|${image.length}`)
+  );
+  const pick = <T>(options: T[]) =>
+    options[Math.floor(rand() * options.length)];
+  return {
+    armour: pick(MOCK_ARMOUR),
+    engine: pick(MOCK_ENGINES),
+    ram: rand() < 0.5,
+    weapons: MOCK_WEAPONS.filter(() => rand() < 0.4),
+  };
+};
+
+export const mockProvider: ImageProvider = {
+  id: "mock",
+  label: "Offline mock (canvas)",
+  async generate({
+    image,
+    mode,
+    customDetails,
+    commander,
+    instruction,
+    signal,
+    onProgress,
+  }) {
+    onProgress?.({ phase: "generating" });
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    const promptMode = toPromptMode(mode);
+    return {
+      imageUrl: await renderMockRide(
+        image,
+        mode,
+        customDetails,
+        commander,
+        instruction
+      ),
+      model: MOCK_MODEL,
+      // What the real endpoint would have sent, so saved rides look the same.
+      promptUsed: instruction
+        ? buildRefinementPrompt(
+            promptMode,
+            instruction,
+            customDetails,
+            commander
+          )
+        : buildGenerationPrompt(promptMode, customDetails, commander),
+      // Refinements keep whatever the ride they refine had fitted.
+      attributes: instruction
+        ? null
+        : mockAttributes(mode, customDetails, image),
+    };
+  },
+};
@@ -0,0 +1,128 @@
+import { ModeIconName, ModeId, MutationMode, PromptMode } from "../types";
+
+// The one list of built-in mutation modes. The picker, the prompts, the
+// server route and the mock provider all read from here; user-made modes
+// (services/customModes.ts) have exactly the same shape.
+
+export const BUILT_IN_MODES: MutationMode[] = [
+  {
+    id: "survival",
+    label: "Survival Upgrade",
+    styleGuide:
+      '"Mad Max" vibes. Spikes, rusty metal, miniguns on roof, heavy off-road tires.',
+    masonAppearance: "welded steel",
+    defaultDetails: "Heavy armor, machine guns, zombie gore on the bumper",
+    icon: "Skull",
+    builtIn: true,
+  },
+  {
+    id: "infected",
+    label: "Infected Zone",
+    styleGuide:
+      "The car is driving through a horde of zombies. Blood splatter, green slime, cracked glass.",
+    masonAppearance: "scratched into the dirt",
+    defaultDetails: "Broken windows, toxic slime, zombie hands on the bonnet",
+    icon: "Biohazard",
+    builtIn: true,
+  },
+  {
+    id: "bunker",
+    label: "Commander's Bunker",
+    styleGuide:
+      "High-tech underground garage. Clean lighting, wall of guns in background.",
+    masonAppearance: "a digital holographic sign",
+    defaultDetails: "Reinforced plating, hidden gun ports, tactical floodlights",
+    icon: "Shield",
+    builtIn: true,
+  },
+  {
+    id: "graffiti",
+    label: "Street Art Style",
+    styleGuide:
+      "Comic book / Street art style. Vibrant toxic greens and purples.",
+    masonAppearance: "a huge wild-style graffiti tag",
+    defaultDetails: "Spray-painted flames, comic-book outlines, neon slime",
+    icon: "SprayCan",
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_MODE_ID: ModeId = BUILT_IN_MODES[0].id;
+
+export const MODE_ICONS: ModeIconName[] = [
+  "Skull",
+  "Biohazard",
+  "Shield",
+  "SprayCan",
+  "Flame",
+  "Snowflake",
+  "Zap",
+  "Radiation",
+  "Ghost",
+  "Car",
+];
+
+// Modes used to be an enum whose values were the labels; rides saved back
+// then still carry them.
+const LEGACY_MODE_IDS: Record<string, ModeId> = {
+  "Survival Upgrade": "survival",
+  "Infected Zone": "infected",
+  "Mason's Bunker": "bunker",
+  "Street Art Style": "graffiti",
+};
+
+export const normalizeModeId = (id: string): ModeId =>
+  LEGACY_MODE_IDS[id] ?? id;
+
+export const findMode = (
+  modes: MutationMode[],
+  id: ModeId
+): MutationMode | undefined => {
+  const normalized = normalizeModeId(id);
+  return modes.find((m) => m.id === normalized);
+};
+
+export const getBuiltInMode = (id: ModeId) => findMode(BUILT_IN_MODES, id);
+
+export const modeLabel = (modes: MutationMode[], id: ModeId) =>
+  findMode(modes, id)?.label ?? id;
+
+export const toPromptMode = ({
+  id,
+  label,
+  styleGuide,
+  masonAppearance,
+  defaultDetails,
+}: PromptMode): PromptMode => ({
+  id,
+  label,
+  styleGuide,
+  masonAppearance,
+  defaultDetails,
+});
+
+export const MODE_FIELD_LIMITS = {
+  label: 40,
+  styleGuide: 400,
+  masonAppearance: 80,
+  defaultDetails: 200,
+};
+
+/**
+ * Validates a prompt mode coming from outside (request bodies, storage).
+ * Returns null when any field is missing or too long.
+ */
+export const parsePromptMode = (value: unknown): PromptMode | null => {
+  if (!value || typeof value !== "object") return null;
+  const candidate = value as Record<string, unknown>;
+  if (typeof candidate.id !== "string" || !candidate.id) return null;
+
+  for (const [field, limit] of Object.entries(MODE_FIELD_LIMITS)) {
+    const text = candidate[field];
+    if (typeof text !== "string" || text.length > limit) return null;
+  }
+  if (!(candidate.label as string).trim()) return null;
+  if (!(candidate.styleGuide as string).trim()) return null;
+
+  return toPromptMode(candidate as unknown as PromptMode);
+};
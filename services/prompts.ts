@@ -0,0 +1,66 @@
+import { CommanderProfile, PromptMode } from "../types";
+
+// Shared between the browser and the /api routes – keep this file free of
+// anything that only exists in one of those environments. Commander names
+// must already have passed validateCommander before they get here.
+
+export const getSystemInstruction = (
+  mode: PromptMode,
+  commander: CommanderProfile
+): string => {
+  const name = commander.name.toUpperCase();
+  return `You are a legendary visual effects artist for a Zombie Apocalypse movie. 
+  Your client is "COMMANDER ${name}", the leader of the resistance.
+  
+  YOUR GOAL: Transform the input vehicle into a battle-ready machine.
+  
+  MANDATORY REQUIREMENT: The name "${name}" must be visible on the vehicle or background.
+  - As a metal plate welded to the door.
+  - As a neon sign reflecting in a puddle.
+  - As graffiti spray-painted on the armour.
+  
+  STYLE GUIDE:
+  - ${mode.label}: ${mode.styleGuide} The text "${name}" is ${mode.masonAppearance || "clearly visible"}.
+  `;
+};
+
+// The model answers with text as well as the image; this asks for a line of
+// JSON the app turns into ride stats (services/rideStats.ts).
+const ATTRIBUTES_REQUEST = `Along with the image, reply with ONE line of JSON describing what is fitted to the vehicle, exactly in this shape:
+    {"armour": "none" | "light" | "heavy" | "fortress", "weapons": ["short name", ...], "ram": true | false, "engine": "stock" | "tuned" | "supercharged"}`;
+
+export const buildGenerationPrompt = (
+  mode: PromptMode,
+  customDetails: string,
+  commander: CommanderProfile
+): string => {
+  return `Movie poster quality. Transform this specific car into a ${mode.label} zombie apocalypse vehicle.
+    
+    The license plate or door MUST say "${commander.name.toUpperCase()}".
+    
+    Details to include: ${customDetails || mode.defaultDetails}.
+    
+    Make it look epic, scary, and cool. 8k resolution, cinematic lighting.
+
+    ${ATTRIBUTES_REQUEST}`;
+};
+
+export const MAX_INSTRUCTION_LENGTH = 200;
+
+// Follow-up edits run on an already-generated ride, so the prompt asks the
+// model to keep everything else exactly as it is. `customDetails` are the
+// special requests the ride was first built with.
+export const buildRefinementPrompt = (
+  mode: PromptMode,
+  instruction: string,
+  customDetails: string,
+  commander: CommanderProfile
+): string => {
+  return `This image is an existing ${mode.label} zombie apocalypse vehicle, built with: ${customDetails || mode.defaultDetails}.
+    
+    Keep the same vehicle, camera angle, lighting and art style. Apply ONLY this change: ${instruction}.
+    
+    The name "${commander.name.toUpperCase()}" must stay clearly visible on the vehicle.
+
+    ${ATTRIBUTES_REQUEST}`;
+};
@@ -0,0 +1,42 @@
+// Small deterministic RNG helpers. Anything that has to look "random" but be
+// reproducible (mock renders, tests, replays) should take one of these
+// instead of calling Math.random directly.
+
+export type RandomSource = () => number;
+
+export const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 – tiny, fast and good enough for gameplay / visuals. One draw
+// from a plain-number state: the value and the state to draw from next.
+export const drawRandom = (seed: number): { value: number; seed: number } => {
+  const next = (seed + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, seed: next };
+};
+
+/**
+ * A RandomSource whose state can be read back with `seed()`. Pure code
+ * keeps the seed as a number in its state, draws from a cursor and stores
+ * where the cursor got to.
+ */
+export const createRandomCursor = (seed: number) => {
+  let state = seed >>> 0;
+  const next: RandomSource = () => {
+    const draw = drawRandom(state);
+    state = draw.seed;
+    return draw.value;
+  };
+  return { next, seed: () => state };
+};
+
+export const createSeededRandom = (seed: number): RandomSource =>
+  createRandomCursor(seed).next;
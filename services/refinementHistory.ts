@@ -0,0 +1,50 @@
+import { RefinementHistory, RefinementStep, RenderInfo } from "../types";
+
+// Linear undo/redo over refinement steps. Refining from the middle of the
+// history drops the redo tail, like a text editor.
+
+export const EMPTY_HISTORY: RefinementHistory = { steps: [], index: -1 };
+
+export const startHistory = (
+  imageUrl: string,
+  render?: RenderInfo
+): RefinementHistory => ({
+  steps: [{ id: crypto.randomUUID(), imageUrl, instruction: null, render }],
+  index: 0,
+});
+
+export const currentStep = (
+  history: RefinementHistory
+): RefinementStep | null => history.steps[history.index] ?? null;
+
+export const pushRefinement = (
+  history: RefinementHistory,
+  imageUrl: string,
+  instruction: string,
+  render?: RenderInfo
+): RefinementHistory => {
+  const steps = [
+    ...history.steps.slice(0, history.index + 1),
+    { id: crypto.randomUUID(), imageUrl, instruction, render },
+  ];
+  return { steps, index: steps.length - 1 };
+};
+
+export const canUndo = (history: RefinementHistory) => history.index > 0;
+
+export const canRedo = (history: RefinementHistory) =>
+  history.index < history.steps.length - 1;
+
+export const undo = (history: RefinementHistory): RefinementHistory =>
+  canUndo(history) ? { ...history, index: history.index - 1 } : history;
+
+export const redo = (history: RefinementHistory): RefinementHistory =>
+  canRedo(history) ? { ...history, index: history.index + 1 } : history;
+
+export const jumpTo = (
+  history: RefinementHistory,
+  index: number
+): RefinementHistory =>
+  index >= 0 && index < history.steps.length
+    ? { ...history, index }
+    : history;
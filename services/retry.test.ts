@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { GenerationError } from "./generationErrors";
+import { backoffDelay, withRetry } from "./retry";
+
+const failing = (errors: unknown[]) => {
+  let calls = 0;
+  const task = async () => {
+    const error = errors[calls++];
+    if (error) throw error;
+    return "ok";
+  };
+  return { task, calls: () => calls };
+};
+
+describe("backoffDelay", () => {
+  it("doubles the ceiling each attempt up to the max", () => {
+    const top = () => 1;
+    expect([0, 1, 2, 3, 4].map((n) => backoffDelay(n, 100, 1000, top))).toEqual(
+      [100, 200, 400, 800, 1000]
+    );
+  });
+
+  it("jitters anywhere from zero to the ceiling", () => {
+    expect(backoffDelay(3, 100, 1000, () => 0)).toBe(0);
+    expect(backoffDelay(3, 100, 1000, () => 0.5)).toBe(400);
+  });
+});
+
+describe("withRetry", () => {
+  const fast = { baseDelayMs: 1, random: () => 0 };
+
+  it("retries retryable errors and reports each retry", async () => {
+    const { task, calls } = failing([
+      new GenerationError("rate_limit", "slow down"),
+      new GenerationError("network", "offline"),
+    ]);
+    const retries: [string, number][] = [];
+    const result = await withRetry(task, {
+      ...fast,
+      onRetry: (error, attempt) => retries.push([error.kind, attempt]),
+    });
+    expect(result).toBe("ok");
+    expect(calls()).toBe(3);
+    expect(retries).toEqual([
+      ["rate_limit", 1],
+      ["network", 2],
+    ]);
+  });
+
+  it("gives up straight away on other errors", async () => {
+    const blocked = new GenerationError("safety_block", "no");
+    const { task, calls } = failing([blocked]);
+    await expect(withRetry(task, fast)).rejects.toBe(blocked);
+    expect(calls()).toBe(1);
+
+    const plain = failing([new Error("boom")]);
+    await expect(withRetry(plain.task, fast)).rejects.toThrow("boom");
+    expect(plain.calls()).toBe(1);
+  });
+
+  it("stops after the last retry", async () => {
+    const error = new GenerationError("network", "offline");
+    const { task, calls } = failing([error, error, error]);
+    await expect(withRetry(task, { ...fast, retries: 2 })).rejects.toBe(error);
+    expect(calls()).toBe(3);
+  });
+
+  it("stops waiting when cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { task, calls } = failing([
+      new GenerationError("network", "offline"),
+    ]);
+    await expect(
+      withRetry(task, { ...fast, signal: controller.signal })
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(calls()).toBe(1);
+  });
+});
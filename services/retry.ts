@@ -0,0 +1,51 @@
+import { abortableDelay } from "./abort";
+import { GenerationError } from "./generationErrors";
+import { RandomSource } from "./random";
+
+export interface RetryOptions {
+  /** Extra attempts after the first one. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  random?: RandomSource;
+  onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void;
+}
+
+// "Full jitter" exponential backoff: wait a random time in
+// [0, min(max, base * 2^attempt)] so parallel variants don't retry in lockstep.
+export const backoffDelay = (
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: RandomSource = Math.random
+) => Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  {
+    retries = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 8000,
+    signal,
+    random,
+    onRetry,
+  }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (
+        !(error instanceof GenerationError) ||
+        !error.retryable ||
+        attempt >= retries
+      ) {
+        throw error;
+      }
+      const delayMs = backoffDelay(attempt, baseDelayMs, maxDelayMs, random);
+      onRetry?.(error, attempt + 1, delayMs);
+      await abortableDelay(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,162 @@
+import { encodeGif, GifFrame } from "./gifEncoder";
+
+// Animated before→after reveal: the original photo, a wipe across to the
+// generated ride, then a hold on the ride. GIF is encoded frame by frame;
+// WebM is recorded from a canvas in real time with MediaRecorder.
+
+export type RevealFormat = "gif" | "webm";
+
+const HOLD_BEFORE_MS = 700;
+const WIPE_MS = 1600;
+const HOLD_AFTER_MS = 1200;
+const TOTAL_MS = HOLD_BEFORE_MS + WIPE_MS + HOLD_AFTER_MS;
+
+// GIFs get big fast; video can afford more pixels.
+const MAX_EDGE: Record<RevealFormat, number> = { gif: 480, webm: 960 };
+const GIF_FPS = 12;
+const WEBM_FPS = 30;
+
+const WEBM_TYPES = [
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp8",
+  "video/webm",
+];
+
+export const webmRecordingType = () =>
+  typeof MediaRecorder === "undefined"
+    ? null
+    : WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+
+export const canExportReveal = (format: RevealFormat) =>
+  format === "gif" || webmRecordingType() !== null;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not read the image."));
+    img.src = src;
+  });
+
+const easeInOut = (t: number) =>
+  t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+
+/** How far the wipe has got, 0–1, at a point in the animation. */
+const wipeAt = (ms: number) =>
+  easeInOut(Math.min(1, Math.max(0, (ms - HOLD_BEFORE_MS) / WIPE_MS)));
+
+const drawCover = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  w: number,
+  h: number
+) => {
+  const scale = Math.max(w / img.naturalWidth, h / img.naturalHeight);
+  const dw = img.naturalWidth * scale;
+  const dh = img.naturalHeight * scale;
+  ctx.drawImage(img, (w - dw) / 2, (h - dh) / 2, dw, dh);
+};
+
+const drawFrame = (
+  ctx: CanvasRenderingContext2D,
+  before: HTMLImageElement,
+  after: HTMLImageElement,
+  progress: number
+) => {
+  const { width: w, height: h } = ctx.canvas;
+  drawCover(ctx, before, w, h);
+  const x = Math.round(w * progress);
+  if (x > 0) {
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, x, h);
+    ctx.clip();
+    drawCover(ctx, after, w, h);
+    ctx.restore();
+  }
+  if (progress > 0 && progress < 1) {
+    ctx.fillStyle = "#a3e635";
+    ctx.fillRect(x - 2, 0, 4, h);
+  }
+};
+
+const createCanvas = (after: HTMLImageElement, format: RevealFormat) => {
+  const scale = Math.min(
+    1,
+    MAX_EDGE[format] / Math.max(after.naturalWidth, after.naturalHeight)
+  );
+  const canvas = document.createElement("canvas");
+  // Even sizes keep video encoders happy.
+  const even = (size: number) =>
+    Math.max(2, Math.round((size * scale) / 2) * 2);
+  canvas.width = even(after.naturalWidth);
+  canvas.height = even(after.naturalHeight);
+  const ctx = canvas.getContext("2d", {
+    willReadFrequently: format === "gif",
+  });
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  return { canvas, ctx };
+};
+
+const exportGif = (
+  before: HTMLImageElement,
+  after: HTMLImageElement
+): Blob => {
+  const { canvas, ctx } = createCanvas(after, "gif");
+  const frameMs = 1000 / GIF_FPS;
+  const frames: GifFrame[] = [];
+  for (let ms = 0; ms < TOTAL_MS; ms += frameMs) {
+    drawFrame(ctx, before, after, wipeAt(ms));
+    frames.push({
+      data: ctx.getImageData(0, 0, canvas.width, canvas.height).data,
+      delay: Math.round(frameMs / 10),
+    });
+  }
+  return encodeGif(canvas.width, canvas.height, frames);
+};
+
+const exportWebm = (
+  before: HTMLImageElement,
+  after: HTMLImageElement,
+  mimeType: string
+): Promise<Blob> => {
+  const { canvas, ctx } = createCanvas(after, "webm");
+  drawFrame(ctx, before, after, 0);
+  const recorder = new MediaRecorder(canvas.captureStream(WEBM_FPS), {
+    mimeType,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  return new Promise((resolve, reject) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: "video/webm" }));
+    recorder.onerror = () => reject(new Error("Recording failed."));
+    recorder.start();
+    const started = performance.now();
+    const tick = () => {
+      const ms = performance.now() - started;
+      drawFrame(ctx, before, after, wipeAt(ms));
+      if (ms < TOTAL_MS) requestAnimationFrame(tick);
+      else recorder.stop();
+    };
+    requestAnimationFrame(tick);
+  });
+};
+
+/** Takes about as long as the animation itself for WebM. */
+export const exportReveal = async (
+  beforeUrl: string,
+  afterUrl: string,
+  format: RevealFormat
+): Promise<Blob> => {
+  const [before, after] = await Promise.all([
+    loadImage(beforeUrl),
+    loadImage(afterUrl),
+  ]);
+  if (format === "gif") return exportGif(before, after);
+  const mimeType = webmRecordingType();
+  if (!mimeType) throw new Error("This browser can't record WebM video.");
+  return exportWebm(before, after, mimeType);
+};
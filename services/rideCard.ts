@@ -0,0 +1,259 @@
+// Shareable ride cards: the ride image in a branded garage frame with its
+// name, mode, commander and best drive score, at the sizes social apps and
+// link previews expect.
+
+export type CardFormat = "story" | "square" | "og";
+
+export interface CardSize {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const CARD_FORMATS: Record<CardFormat, CardSize> = {
+  story: { label: "Story (9:16)", width: 1080, height: 1920 },
+  square: { label: "Square", width: 1080, height: 1080 },
+  // Matches the og:image size declared in index.html.
+  og: { label: "Link preview (1200×630)", width: 1200, height: 630 },
+};
+
+export interface RideCardInfo {
+  imageUrl: string;
+  name: string;
+  modeLabel: string;
+  commanderName: string;
+  bestDriveScore: number;
+}
+
+export const garageTitle = (commanderName: string) =>
+  `${commanderName.toUpperCase()}'S GARAGE`;
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface CardLayout {
+  header: Rect;
+  image: Rect;
+  text: Rect;
+}
+
+const LIME = "#a3e635";
+const HAZARD = "#facc15";
+
+// Portrait and square cards stack header, image and text; the wide link
+// preview puts the text beside the image.
+const layoutFor = (format: CardFormat, w: number, h: number): CardLayout => {
+  const pad = Math.round(Math.min(w, h) * 0.06);
+  const headerH = Math.round(Math.min(w, h) * 0.12);
+  const header = { x: pad, y: pad, w: w - pad * 2, h: headerH };
+  const top = pad + headerH + pad / 2;
+
+  if (format === "og") {
+    const imageH = h - top - pad;
+    const imageW = Math.round(imageH * (4 / 3));
+    return {
+      header,
+      image: { x: pad, y: top, w: imageW, h: imageH },
+      text: {
+        x: pad * 2 + imageW,
+        y: top,
+        w: w - imageW - pad * 3,
+        h: imageH,
+      },
+    };
+  }
+
+  const textH = Math.round(h * (format === "story" ? 0.26 : 0.22));
+  const imageH = h - top - textH - pad;
+  return {
+    header,
+    image: { x: pad, y: top, w: w - pad * 2, h: imageH },
+    text: { x: pad, y: top + imageH + pad / 2, w: w - pad * 2, h: textH },
+  };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not read the ride image."));
+    img.src = src;
+  });
+
+// Canvas text only uses web fonts that have already loaded.
+const loadFonts = async () => {
+  if (!document.fonts) return;
+  await Promise.all([
+    document.fonts.load("64px Creepster"),
+    document.fonts.load("700 32px 'Roboto Mono'"),
+  ]).catch(() => undefined);
+};
+
+const roundedRect = (
+  ctx: CanvasRenderingContext2D,
+  r: Rect,
+  radius: number
+) => {
+  ctx.beginPath();
+  ctx.roundRect(r.x, r.y, r.w, r.h, radius);
+};
+
+/** Scales the image to cover the rect, cropping whatever spills over. */
+const drawCover = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  r: Rect,
+  radius: number
+) => {
+  const scale = Math.max(r.w / img.naturalWidth, r.h / img.naturalHeight);
+  const sw = r.w / scale;
+  const sh = r.h / scale;
+  ctx.save();
+  roundedRect(ctx, r, radius);
+  ctx.clip();
+  ctx.drawImage(
+    img,
+    (img.naturalWidth - sw) / 2,
+    (img.naturalHeight - sh) / 2,
+    sw,
+    sh,
+    r.x,
+    r.y,
+    r.w,
+    r.h
+  );
+  ctx.restore();
+  roundedRect(ctx, r, radius);
+  ctx.lineWidth = Math.max(3, radius / 4);
+  ctx.strokeStyle = LIME;
+  ctx.stroke();
+};
+
+const drawHazardStripe = (
+  ctx: CanvasRenderingContext2D,
+  y: number,
+  w: number,
+  height: number
+) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, y, w, height);
+  ctx.clip();
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, y, w, height);
+  ctx.fillStyle = HAZARD;
+  for (let x = -height; x < w + height; x += height * 2) {
+    ctx.beginPath();
+    ctx.moveTo(x, y + height);
+    ctx.lineTo(x + height, y);
+    ctx.lineTo(x + height * 2, y);
+    ctx.lineTo(x + height, y + height);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+};
+
+const drawText = (
+  ctx: CanvasRenderingContext2D,
+  info: RideCardInfo,
+  r: Rect,
+  unit: number
+) => {
+  const lines: Array<{
+    text: string;
+    weight: number;
+    size: number;
+    color: string;
+  }> = [
+    { text: info.name, weight: 900, size: 0.075, color: "#fafafa" },
+    {
+      text: info.modeLabel.toUpperCase(),
+      weight: 700,
+      size: 0.04,
+      color: LIME,
+    },
+    {
+      text: `Commander ${info.commanderName}`,
+      weight: 400,
+      size: 0.036,
+      color: "#a1a1aa",
+    },
+  ];
+  if (info.bestDriveScore > 0) {
+    lines.push({
+      text: `BEST DRIVE ${info.bestDriveScore}`,
+      weight: 700,
+      size: 0.045,
+      color: HAZARD,
+    });
+  }
+
+  ctx.textBaseline = "top";
+  ctx.textAlign = "left";
+  let y = r.y;
+  for (const line of lines) {
+    const px = Math.round(unit * line.size);
+    ctx.font = `${line.weight} ${px}px 'Roboto Mono', monospace`;
+    ctx.fillStyle = line.color;
+    ctx.fillText(line.text, r.x, y, r.w);
+    y += px * 1.45;
+  }
+};
+
+export const renderRideCard = async (
+  info: RideCardInfo,
+  format: CardFormat
+): Promise<Blob> => {
+  const { width: w, height: h } = CARD_FORMATS[format];
+  const [img] = await Promise.all([loadImage(info.imageUrl), loadFonts()]);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+
+  const unit = Math.min(w, h);
+  const layout = layoutFor(format, w, h);
+
+  const bg = ctx.createRadialGradient(w / 2, 0, 0, w / 2, 0, Math.max(w, h));
+  bg.addColorStop(0, "#27272a");
+  bg.addColorStop(1, "#000");
+  ctx.fillStyle = bg;
+  ctx.fillRect(0, 0, w, h);
+
+  const stripe = Math.round(unit * 0.025);
+  drawHazardStripe(ctx, 0, w, stripe);
+  drawHazardStripe(ctx, h - stripe, w, stripe);
+
+  const titleSize = Math.round(layout.header.h * 0.8);
+  ctx.font = `${titleSize}px Creepster, Impact, sans-serif`;
+  ctx.fillStyle = LIME;
+  ctx.textBaseline = "middle";
+  ctx.textAlign = "center";
+  ctx.shadowColor = "rgba(163, 230, 53, 0.5)";
+  ctx.shadowBlur = unit * 0.03;
+  ctx.fillText(
+    garageTitle(info.commanderName),
+    w / 2,
+    layout.header.y + layout.header.h / 2,
+    layout.header.w
+  );
+  ctx.shadowBlur = 0;
+
+  drawCover(ctx, img, layout.image, Math.round(unit * 0.025));
+  drawText(ctx, info, layout.text, unit);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not render the card.")),
+      "image/png"
+    )
+  );
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { extractRideAttributes, parseRideAttributes } from "./rideStats";
+
+describe("parseRideAttributes", () => {
+  it("keeps known values and tidies the weapons", () => {
+    expect(
+      parseRideAttributes({
+        armour: "heavy",
+        engine: "tuned",
+        ram: true,
+        weapons: [" roof gun ", "", 7, "flamethrower"],
+        extra: "dropped",
+      })
+    ).toEqual({
+      armour: "heavy",
+      engine: "tuned",
+      ram: true,
+      weapons: ["roof gun", "flamethrower"],
+    });
+  });
+
+  it("rejects values that are only on the prototype", () => {
+    expect(
+      parseRideAttributes({ armour: "constructor", engine: "toString" })
+    ).toBeNull();
+    expect(parseRideAttributes({ armour: "light", engine: "__proto__" }))
+      .toBeNull();
+  });
+});
+
+describe("extractRideAttributes", () => {
+  it("finds the JSON inside a prose reply", () => {
+    const text =
+      'Here you go!\n```json\n{"armour":"none","engine":"stock"}\n```';
+    expect(extractRideAttributes(text)).toEqual({
+      armour: "none",
+      engine: "stock",
+      ram: false,
+      weapons: [],
+    });
+  });
+
+  it("is null when there is nothing usable", () => {
+    expect(extractRideAttributes("no json here")).toBeNull();
+    expect(extractRideAttributes("{not json}")).toBeNull();
+  });
+});
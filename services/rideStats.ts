@@ -0,0 +1,171 @@
+import {
+  ArmourLevel,
+  EngineTune,
+  ModeId,
+  RideAttributes,
+  RideLoadout,
+  RideStats,
+} from "../types";
+
+// Ride stats come from two places: what the mode is about (a bunker build is
+// armoured, a street-art build is quick) and what the model says it fitted.
+// Shared between the browser and the /api routes.
+
+export const STAT_MIN = 1;
+export const STAT_MAX = 10;
+
+export const STAT_LABELS: Record<keyof RideStats, string> = {
+  topSpeed: "Top speed",
+  acceleration: "Acceleration",
+  armour: "Armour",
+  handling: "Handling",
+  ramPower: "Ram power",
+};
+
+const NEUTRAL_STATS: RideStats = {
+  topSpeed: 5,
+  acceleration: 5,
+  armour: 5,
+  handling: 5,
+  ramPower: 5,
+};
+
+// User-made modes start from NEUTRAL_STATS.
+const MODE_STATS: Record<ModeId, RideStats> = {
+  survival: {
+    topSpeed: 5,
+    acceleration: 4,
+    armour: 7,
+    handling: 4,
+    ramPower: 7,
+  },
+  infected: {
+    topSpeed: 6,
+    acceleration: 6,
+    armour: 4,
+    handling: 6,
+    ramPower: 5,
+  },
+  bunker: {
+    topSpeed: 4,
+    acceleration: 5,
+    armour: 8,
+    handling: 5,
+    ramPower: 5,
+  },
+  graffiti: {
+    topSpeed: 7,
+    acceleration: 7,
+    armour: 3,
+    handling: 7,
+    ramPower: 3,
+  },
+};
+
+type StatChange = Partial<RideStats>;
+
+const ARMOUR_CHANGES: Record<ArmourLevel, StatChange> = {
+  none: { armour: -2, topSpeed: 1, handling: 1 },
+  light: {},
+  heavy: { armour: 2, topSpeed: -1, acceleration: -1 },
+  fortress: { armour: 4, topSpeed: -2, acceleration: -2, handling: -1 },
+};
+
+const ENGINE_CHANGES: Record<EngineTune, StatChange> = {
+  stock: {},
+  tuned: { topSpeed: 1, acceleration: 1 },
+  supercharged: { topSpeed: 2, acceleration: 2, handling: -1 },
+};
+
+const RAM_CHANGE: StatChange = { ramPower: 3, handling: -1 };
+
+const clampStat = (value: number) =>
+  Math.max(STAT_MIN, Math.min(STAT_MAX, Math.round(value)));
+
+export const deriveRideStats = (
+  modeId: ModeId,
+  attributes: RideAttributes | null
+): RideStats => {
+  const changes: StatChange[] = attributes
+    ? [
+        ARMOUR_CHANGES[attributes.armour],
+        ENGINE_CHANGES[attributes.engine],
+        attributes.ram ? RAM_CHANGE : {},
+      ]
+    : [];
+  const stats = { ...(MODE_STATS[modeId] ?? NEUTRAL_STATS) };
+  for (const change of changes) {
+    for (const key of Object.keys(change) as (keyof RideStats)[]) {
+      stats[key] += change[key] ?? 0;
+    }
+  }
+  for (const key of Object.keys(stats) as (keyof RideStats)[]) {
+    stats[key] = clampStat(stats[key]);
+  }
+  return stats;
+};
+
+export const NO_LOADOUT: RideLoadout = { gun: false, ammo: 0, shield: 0 };
+
+// Kit that comes with the mode, whatever the model drew.
+const MODE_LOADOUTS: Record<ModeId, RideLoadout> = {
+  survival: { gun: true, ammo: 40, shield: 0 }, // roof gun
+  bunker: { gun: false, ammo: 0, shield: 3 },
+  infected: NO_LOADOUT,
+  graffiti: NO_LOADOUT,
+};
+
+/** Ammo for a gun that comes from the model's weapons rather than the mode. */
+const FITTED_GUN_AMMO = 20;
+
+export const rideLoadout = (
+  modeId: ModeId,
+  attributes: RideAttributes | null
+): RideLoadout => {
+  const loadout = MODE_LOADOUTS[modeId] ?? NO_LOADOUT;
+  if (loadout.gun || !attributes?.weapons.length) return loadout;
+  return { ...loadout, gun: true, ammo: FITTED_GUN_AMMO };
+};
+
+const MAX_WEAPONS = 6;
+const WEAPON_MAX_LENGTH = 40;
+
+const isOneOf = <T extends string>(
+  options: Record<T, unknown>,
+  value: unknown
+): value is T => typeof value === "string" && Object.hasOwn(options, value);
+
+/** Null unless `raw` is a usable attributes object; extra keys are dropped. */
+export const parseRideAttributes = (raw: unknown): RideAttributes | null => {
+  if (typeof raw !== "object" || raw === null) return null;
+  const { armour, weapons, ram, engine } = raw as Record<string, unknown>;
+  if (!isOneOf(ARMOUR_CHANGES, armour) || !isOneOf(ENGINE_CHANGES, engine)) {
+    return null;
+  }
+  return {
+    armour,
+    engine,
+    ram: ram === true,
+    weapons: Array.isArray(weapons)
+      ? weapons
+          .filter((w): w is string => typeof w === "string" && w.trim() !== "")
+          .map((w) => w.trim().slice(0, WEAPON_MAX_LENGTH))
+          .slice(0, MAX_WEAPONS)
+      : [],
+  };
+};
+
+/**
+ * Pulls the attributes out of the model's text reply, which may wrap the
+ * JSON in prose or a code fence. Null if there's nothing usable.
+ */
+export const extractRideAttributes = (text: string): RideAttributes | null => {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+  try {
+    return parseRideAttributes(JSON.parse(text.slice(start, end + 1)));
+  } catch {
+    return null;
+  }
+};
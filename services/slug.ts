@@ -0,0 +1,8 @@
+/** "Renée O'Neil" → "renee-o-neil" – for filenames. */
+export const slugify = (text: string, fallback: string) =>
+  text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "") || fallback;
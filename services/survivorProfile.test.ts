@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_COMMANDER } from "./commander";
+import {
+  createProfile,
+  EMPTY_STATS,
+  favouriteModeId,
+  levelProgress,
+  parseProfile,
+  recordDriveRun,
+  recordRideBuilt,
+  validateAvatar,
+} from "./survivorProfile";
+
+describe("parseProfile", () => {
+  it("keeps a valid stored profile", () => {
+    const profile = createProfile();
+    expect(parseProfile(JSON.parse(JSON.stringify(profile)))).toEqual(profile);
+  });
+
+  it("rejects anything without a usable commander", () => {
+    expect(parseProfile(null)).toBeNull();
+    expect(parseProfile("profile")).toBeNull();
+    expect(parseProfile({ commander: { name: "" } })).toBeNull();
+  });
+
+  it("repairs the avatar and stats rather than dropping the profile", () => {
+    const profile = parseProfile({
+      commander: DEFAULT_COMMANDER,
+      avatar: "<b>",
+      stats: {
+        xp: -20,
+        ridesBuilt: "lots",
+        modeCounts: { "Mason's Bunker": 2, bunker: 1, survival: NaN },
+        bestDriveScore: Infinity,
+      },
+    });
+    expect(profile?.id).toMatch(/^ZMB-/);
+    expect(profile?.avatar).toBe("M");
+    expect(profile?.stats).toEqual({
+      ...EMPTY_STATS,
+      modeCounts: { bunker: 3, survival: 0 },
+    });
+  });
+});
+
+describe("validateAvatar", () => {
+  it("takes one letter or number", () => {
+    expect(validateAvatar("Z")).toBeNull();
+    expect(validateAvatar("Ж")).toBeNull();
+    expect(validateAvatar("7")).toBeNull();
+    expect(validateAvatar("ZZ")).not.toBeNull();
+    expect(validateAvatar("!")).not.toBeNull();
+    expect(validateAvatar("")).not.toBeNull();
+  });
+});
+
+describe("progress", () => {
+  it("levels up on a growing XP curve", () => {
+    expect(levelProgress(0)).toEqual({ level: 1, current: 0, needed: 100 });
+    expect(levelProgress(99)).toEqual({ level: 1, current: 99, needed: 100 });
+    expect(levelProgress(100)).toEqual({ level: 2, current: 0, needed: 200 });
+    expect(levelProgress(350)).toEqual({ level: 3, current: 50, needed: 300 });
+  });
+
+  it("records rides and drives", () => {
+    let profile = createProfile();
+    profile = recordRideBuilt(profile, "graffiti");
+    profile = recordRideBuilt(profile, "bunker");
+    profile = recordRideBuilt(profile, "bunker");
+    profile = recordDriveRun(profile, {
+      score: 1234,
+      zombiesDodged: 7,
+      distance: 900,
+    });
+    expect(favouriteModeId(profile.stats)).toBe("bunker");
+    expect(profile.stats).toMatchObject({
+      xp: 3 * 50 + 123,
+      ridesBuilt: 3,
+      bestDriveScore: 1234,
+      zombiesDodged: 7,
+      distanceDriven: 900,
+    });
+  });
+});
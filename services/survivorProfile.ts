@@ -0,0 +1,201 @@
+import {
+  CommanderProfile,
+  DriveRunResult,
+  ModeId,
+  SurvivorProfile,
+  SurvivorStats,
+} from "../types";
+import { DEFAULT_COMMANDER, parseCommander } from "./commander";
+import { normalizeModeId } from "./modeRegistry";
+
+// XP rewards. Building is worth more than refining; driving pays out in
+// proportion to the run's score.
+export const XP_PER_RIDE = 50;
+export const XP_PER_REFINEMENT = 10;
+const DRIVE_SCORE_PER_XP = 10;
+
+// Level n → n + 1 costs LEVEL_STEP * n XP, so level 2 needs 100 XP in total,
+// level 3 needs 300, level 4 needs 600...
+const LEVEL_STEP = 100;
+
+export const EMPTY_STATS: SurvivorStats = {
+  xp: 0,
+  ridesBuilt: 0,
+  modeCounts: {},
+  bestDriveScore: 0,
+  zombiesDodged: 0,
+  distanceDriven: 0,
+};
+
+const createSurvivorId = () =>
+  `ZMB-${crypto.randomUUID().slice(0, 6).toUpperCase()}`;
+
+export const avatarFor = (commander: CommanderProfile) =>
+  commander.name.charAt(0).toUpperCase();
+
+const ALLOWED_AVATAR = /^[\p{L}\p{N}]$/u;
+
+/** Returns an error message, or null when the avatar is usable. */
+export const validateAvatar = (avatar: string): string | null =>
+  ALLOWED_AVATAR.test(avatar) ? null : "One letter or number.";
+
+export const createProfile = (
+  commander: CommanderProfile = DEFAULT_COMMANDER
+): SurvivorProfile => ({
+  id: createSurvivorId(),
+  commander,
+  avatar: avatarFor(commander),
+  stats: EMPTY_STATS,
+});
+
+export interface LevelProgress {
+  level: number;
+  /** XP earned since reaching `level`. */
+  current: number;
+  /** XP needed to go from `level` to the next one. */
+  needed: number;
+}
+
+export const levelProgress = (xp: number): LevelProgress => {
+  let level = 1;
+  let remaining = Math.max(0, Math.floor(xp));
+  while (remaining >= LEVEL_STEP * level) {
+    remaining -= LEVEL_STEP * level;
+    level += 1;
+  }
+  return { level, current: remaining, needed: LEVEL_STEP * level };
+};
+
+/** The mode with the most rides built; ties go to whichever was used first. */
+export const favouriteModeId = (stats: SurvivorStats): ModeId | null => {
+  let best: ModeId | null = null;
+  for (const [id, count] of Object.entries(stats.modeCounts)) {
+    if (count > 0 && (best === null || count > stats.modeCounts[best])) {
+      best = id;
+    }
+  }
+  return best;
+};
+
+export const updateIdentity = (
+  profile: SurvivorProfile,
+  commander: CommanderProfile,
+  avatar: string
+): SurvivorProfile => ({
+  ...profile,
+  commander,
+  avatar: avatar.toUpperCase(),
+});
+
+export const recordRideBuilt = (
+  profile: SurvivorProfile,
+  modeId: ModeId
+): SurvivorProfile => {
+  const { stats } = profile;
+  return {
+    ...profile,
+    stats: {
+      ...stats,
+      xp: stats.xp + XP_PER_RIDE,
+      ridesBuilt: stats.ridesBuilt + 1,
+      modeCounts: {
+        ...stats.modeCounts,
+        [modeId]: (stats.modeCounts[modeId] ?? 0) + 1,
+      },
+    },
+  };
+};
+
+export const recordRefinement = (
+  profile: SurvivorProfile
+): SurvivorProfile => ({
+  ...profile,
+  stats: { ...profile.stats, xp: profile.stats.xp + XP_PER_REFINEMENT },
+});
+
+export const recordDriveRun = (
+  profile: SurvivorProfile,
+  run: DriveRunResult
+): SurvivorProfile => {
+  const { stats } = profile;
+  return {
+    ...profile,
+    stats: {
+      ...stats,
+      xp: stats.xp + Math.floor(run.score / DRIVE_SCORE_PER_XP),
+      bestDriveScore: Math.max(stats.bestDriveScore, run.score),
+      zombiesDodged: stats.zombiesDodged + run.zombiesDodged,
+      distanceDriven: stats.distanceDriven + run.distance,
+    },
+  };
+};
+
+const count = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0
+    ? value
+    : 0;
+
+const parseStats = (value: unknown): SurvivorStats => {
+  if (!value || typeof value !== "object") return EMPTY_STATS;
+  const raw = value as Record<string, unknown>;
+  const modeCounts: Record<ModeId, number> = {};
+  if (raw.modeCounts && typeof raw.modeCounts === "object") {
+    for (const [id, n] of Object.entries(raw.modeCounts)) {
+      const key = normalizeModeId(id);
+      modeCounts[key] = (modeCounts[key] ?? 0) + count(n);
+    }
+  }
+  return {
+    xp: count(raw.xp),
+    ridesBuilt: count(raw.ridesBuilt),
+    modeCounts,
+    bestDriveScore: count(raw.bestDriveScore),
+    zombiesDodged: count(raw.zombiesDodged),
+    distanceDriven: count(raw.distanceDriven),
+  };
+};
+
+/** Validates stored data; anything unusable falls back to a default. */
+export const parseProfile = (value: unknown): SurvivorProfile | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const commander = parseCommander(raw.commander);
+  if (!commander) return null;
+  const avatar =
+    typeof raw.avatar === "string" && !validateAvatar(raw.avatar)
+      ? raw.avatar
+      : avatarFor(commander);
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : createSurvivorId(),
+    commander,
+    avatar,
+    stats: parseStats(raw.stats),
+  };
+};
+
+const STORAGE_KEY = "mason_survivor_profile_v1";
+// Before profiles existed only the commander's name was stored.
+const LEGACY_COMMANDER_KEY = "mason_commander_v1";
+
+export const loadProfile = (): SurvivorProfile => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return parseProfile(JSON.parse(saved)) ?? createProfile();
+
+    const legacy = localStorage.getItem(LEGACY_COMMANDER_KEY);
+    const commander = legacy && parseCommander(JSON.parse(legacy));
+    return createProfile(commander || DEFAULT_COMMANDER);
+  } catch (e) {
+    console.warn("Could not load survivor profile from localStorage", e);
+    return createProfile();
+  }
+};
+
+export const saveProfile = (profile: SurvivorProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+    localStorage.removeItem(LEGACY_COMMANDER_KEY);
+  } catch (e) {
+    console.warn("Could not save survivor profile", e);
+  }
+};
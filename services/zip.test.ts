@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { deflateRawSync } from "node:zlib";
+import {
+  createZip,
+  crc32,
+  looksLikeZip,
+  readZip,
+  ZipFormatError,
+} from "./zip";
+
+const bytesOf = async (blob: Blob) =>
+  new Uint8Array(await blob.arrayBuffer());
+
+const sample = () =>
+  createZip([
+    { name: "manifest.json", data: '{"format":"mason-garage"}' },
+    { name: "images/ride.png", data: Uint8Array.of(0x89, 0x50, 1, 2, 3) },
+    { name: "images/ümlaut.jpg", data: new Blob([Uint8Array.of(0xff, 0xd8)]) },
+    { name: "empty.txt", data: "" },
+  ]);
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe("createZip / readZip", () => {
+  it("reads back what was written", async () => {
+    const zip = await sample();
+    expect(zip.type).toBe("application/zip");
+    expect(await looksLikeZip(zip)).toBe(true);
+
+    const files = await readZip(zip);
+    expect([...files.keys()]).toEqual([
+      "manifest.json",
+      "images/ride.png",
+      "images/ümlaut.jpg",
+      "empty.txt",
+    ]);
+    expect(new TextDecoder().decode(files.get("manifest.json"))).toBe(
+      '{"format":"mason-garage"}'
+    );
+    expect(files.get("images/ride.png")).toEqual(
+      Uint8Array.of(0x89, 0x50, 1, 2, 3)
+    );
+    expect(files.get("images/ümlaut.jpg")).toEqual(Uint8Array.of(0xff, 0xd8));
+    expect(files.get("empty.txt")).toEqual(new Uint8Array());
+  });
+
+  it("reads deflated entries written by other tools", async () => {
+    const text = "zombie ".repeat(200);
+    const zip = await bytesOf(await createZip([{ name: "a.txt", data: text }]));
+    const deflated = deflateRawSync(new TextEncoder().encode(text));
+
+    // Swap the stored payload for a deflated one and fix up the headers.
+    const nameLength = 5;
+    const dataStart = 30 + nameLength;
+    const central = zip.subarray(dataStart + text.length);
+    const out = new Uint8Array(dataStart + deflated.length + central.length);
+    out.set(zip.subarray(0, dataStart));
+    out.set(deflated, dataStart);
+    out.set(central, dataStart + deflated.length);
+    const view = new DataView(out.buffer);
+    const centralAt = dataStart + deflated.length;
+    view.setUint16(8, 8, true);
+    view.setUint32(18, deflated.length, true);
+    view.setUint16(centralAt + 10, 8, true);
+    view.setUint32(centralAt + 20, deflated.length, true);
+    view.setUint32(out.length - 6, centralAt, true);
+
+    const files = await readZip(new Blob([out]));
+    expect(new TextDecoder().decode(files.get("a.txt"))).toBe(text);
+  });
+
+  it("rejects an entry whose CRC doesn't match", async () => {
+    const bytes = await bytesOf(await sample());
+    // First byte of manifest.json's data, after its 30 + 13 byte header.
+    bytes[43] ^= 0xff;
+    await expect(readZip(new Blob([bytes]))).rejects.toThrow(
+      new ZipFormatError("The zip entry manifest.json is corrupt.")
+    );
+  });
+
+  it("rejects a truncated file", async () => {
+    const bytes = await bytesOf(await sample());
+    for (const length of [bytes.length - 1, 40, 0]) {
+      await expect(
+        readZip(new Blob([bytes.subarray(0, length)]))
+      ).rejects.toBeInstanceOf(ZipFormatError);
+    }
+  });
+
+  it("rejects an archive with its start cut off", async () => {
+    const bytes = await bytesOf(await sample());
+    await expect(
+      readZip(new Blob([bytes.subarray(50)]))
+    ).rejects.toBeInstanceOf(ZipFormatError);
+  });
+
+  it("rejects an entry that points outside the archive", async () => {
+    const bytes = await bytesOf(await sample());
+    const view = new DataView(bytes.buffer);
+    const centralAt = view.getUint32(bytes.length - 6, true);
+    view.setUint32(centralAt + 42, bytes.length + 100, true);
+    await expect(readZip(new Blob([bytes]))).rejects.toThrow(
+      new ZipFormatError("The zip entry manifest.json is damaged.")
+    );
+  });
+
+  it("rejects files that aren't zips", async () => {
+    const blob = new Blob(["just some text"]);
+    expect(await looksLikeZip(blob)).toBe(false);
+    await expect(readZip(blob)).rejects.toThrow("Not a zip file.");
+  });
+});
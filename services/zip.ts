@@ -0,0 +1,204 @@
+// Minimal zip writer and reader. Entries are written uncompressed: the
+// payload is mostly PNG/JPEG, which deflate can't shrink, and it keeps this
+// small enough not to need a dependency. The reader also takes deflated
+// entries, so archives re-zipped by other tools still open. No zip64, so
+// archives stay under 4 GB.
+
+export interface ZipEntry {
+  /** Path inside the archive, forward slashes. */
+  name: string;
+  data: Blob | Uint8Array | string;
+  modified?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toBytes = async (data: ZipEntry["data"]) => {
+  if (typeof data === "string") return new TextEncoder().encode(data);
+  if (data instanceof Uint8Array) return data;
+  return new Uint8Array(await data.arrayBuffer());
+};
+
+// MS-DOS date/time, local time, two-second resolution.
+const dosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((Math.max(1980, date.getFullYear()) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+const UTF8_FLAG = 0x0800;
+const VERSION = 20;
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = await toBytes(entry.data);
+    const crc = crc32(data);
+    const { time, date } = dosDateTime(entry.modified ?? new Date());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, VERSION, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, VERSION, true);
+    header.setUint16(6, VERSION, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    // extra, comment, disk, internal and external attributes stay 0
+    header.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], {
+    type: "application/zip",
+  });
+};
+
+/** Thrown for anything that isn't a zip this reader understands. */
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipFormatError";
+  }
+}
+
+const END_SIGNATURE = 0x06054b50;
+const END_SIZE = 22;
+const MAX_COMMENT = 0xffff;
+
+const inflateRaw = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** True if the blob starts with a local file header. */
+export const looksLikeZip = async (blob: Blob) => {
+  const head = new Uint8Array(await blob.slice(0, 4).arrayBuffer());
+  return (
+    head.length === 4 &&
+    new DataView(head.buffer).getUint32(0, true) === 0x04034b50
+  );
+};
+
+/** Reads every file in the archive, keyed by path. Directories are skipped. */
+export const readZip = async (blob: Blob): Promise<Map<string, Uint8Array>> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end record sits after an optional comment, so search back for it.
+  let end = -1;
+  const floor = Math.max(0, bytes.length - END_SIZE - MAX_COMMENT);
+  for (let i = bytes.length - END_SIZE; i >= floor; i--) {
+    if (view.getUint32(i, true) === END_SIGNATURE) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new ZipFormatError("Not a zip file.");
+
+  const count = view.getUint16(end + 10, true);
+  let pos = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < count; i++) {
+    if (pos + 46 > bytes.length || view.getUint32(pos, true) !== 0x02014b50) {
+      throw new ZipFormatError("The zip's file list is damaged.");
+    }
+    const method = view.getUint16(pos + 10, true);
+    const crc = view.getUint32(pos + 16, true);
+    const size = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const offset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(pos + 46, pos + 46 + nameLength)
+    );
+    pos += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith("/")) continue;
+
+    if (
+      offset + 30 > bytes.length ||
+      view.getUint32(offset, true) !== 0x04034b50
+    ) {
+      throw new ZipFormatError(`The zip entry ${name} is damaged.`);
+    }
+    const start =
+      offset +
+      30 +
+      view.getUint16(offset + 26, true) +
+      view.getUint16(offset + 28, true);
+    const raw = bytes.subarray(start, start + size);
+
+    let data: Uint8Array;
+    if (method === 0) data = raw;
+    else if (method === 8) data = await inflateRaw(raw);
+    else {
+      throw new ZipFormatError(
+        `The zip entry ${name} uses an unsupported compression method.`
+      );
+    }
+    if (crc32(data) !== crc) {
+      throw new ZipFormatError(`The zip entry ${name} is corrupt.`);
+    }
+    files.set(name, data);
+  }
+  return files;
+};
@@ -1,16 +1,218 @@
-export enum GenerationMode {
-  SURVIVAL = 'Survival Upgrade',
-  INFECTED = 'Infected Zone',
-  BUNKER = 'Mason\'s Bunker',
-  GRAFFITI = 'Street Art Style'
+export type ModeId = string;
+
+/** Icons a mode can use; mapped to components in components/ModeIcon.tsx. */
+export type ModeIconName =
+  | 'Skull'
+  | 'Biohazard'
+  | 'Shield'
+  | 'SprayCan'
+  | 'Flame'
+  | 'Snowflake'
+  | 'Zap'
+  | 'Radiation'
+  | 'Ghost'
+  | 'Car';
+
+/** The parts of a mode that go into the prompt; safe to send to the server. */
+export interface PromptMode {
+  id: ModeId;
+  label: string;
+  /** Look and setting of the scene. */
+  styleGuide: string;
+  /** How the commander's name shows up, e.g. "welded steel". */
+  masonAppearance: string;
+  /** Used when the user leaves the special requests box empty. */
+  defaultDetails: string;
+}
+
+export interface MutationMode extends PromptMode {
+  icon: ModeIconName;
+  /** false for modes the user created. */
+  builtIn: boolean;
+}
+
+export type ArmourLevel = 'none' | 'light' | 'heavy' | 'fortress';
+
+export type EngineTune = 'stock' | 'tuned' | 'supercharged';
+
+/**
+ * What the model says it fitted, from the JSON it sends back with the image.
+ * See `services/rideStats.ts`.
+ */
+export interface RideAttributes {
+  armour: ArmourLevel;
+  /** Short names, e.g. "roof minigun". */
+  weapons: string[];
+  /** Bull bar, plough or spikes on the front. */
+  ram: boolean;
+  engine: EngineTune;
+}
+
+/** 1–10 ratings that tune the ride in Drive Mode. */
+export interface RideStats {
+  topSpeed: number;
+  acceleration: number;
+  /** Higher means each zombie hit costs less health. */
+  armour: number;
+  /** Steering rate. */
+  handling: number;
+  ramPower: number;
+}
+
+/** What a ride starts a Drive Mode run with; see `services/rideStats.ts`. */
+export interface RideLoadout {
+  /** A mounted gun, fired with the fire button while there's ammo. */
+  gun: boolean;
+  ammo: number;
+  /** Hits the shield absorbs before the car takes damage. */
+  shield: number;
 }
 
 export interface GeneratedImageResult {
   imageUrl: string;
   promptUsed: string;
+  /** Null when the model didn't describe what it fitted. */
+  attributes: RideAttributes | null;
+  /** Model that drew it, e.g. "gemini-2.5-flash-image". */
+  model: string;
+  /** Id of the ImageProvider that ran the request. */
+  provider: string;
+}
+
+/** How an image was made, so saving it can record where it came from. */
+export interface RenderInfo {
+  provider: string;
+  model: string;
+  promptUsed: string;
+  modeId: ModeId;
+  customDetails: string;
+  /** The uploaded photo the ride started from. */
+  sourceImage: string | null;
+  attributes: RideAttributes | null;
 }
 
+/** Lifecycle of a single generation request, in order. */
+export type GenerationPhase =
+  | 'queued'
+  | 'uploading'
+  | 'generating'
+  | 'decoding'
+  | 'done'
+  | 'failed';
+
+export type GenerationEvent =
+  | { phase: 'queued' }
+  | { phase: 'uploading'; progress: number }
+  | { phase: 'generating' }
+  | { phase: 'decoding' }
+  | { phase: 'done' }
+  | { phase: 'failed'; error: unknown };
+
+export type GenerationProgressCallback = (event: GenerationEvent) => void;
+
+export type LoadingPhase = 'idle' | GenerationPhase | 'cancelled';
+
+/**
+ * What the UI shows for the running request. Only moves along the edges in
+ * `services/generationLifecycle.ts`.
+ */
 export interface LoadingState {
-  isLoading: boolean;
+  phase: LoadingPhase;
   message: string;
-}
\ No newline at end of file
+  /** 0–1 upload progress while `phase` is 'uploading'. */
+  progress?: number;
+}
+
+export type VariantStatus = 'pending' | 'ready' | 'failed';
+
+export interface GenerationVariant {
+  id: string;
+  status: VariantStatus;
+  phase?: GenerationPhase;
+  imageUrl?: string;
+  render?: RenderInfo;
+  error?: string;
+}
+
+export interface RefinementStep {
+  id: string;
+  imageUrl: string;
+  /** null for the original render the history started from. */
+  instruction: string | null;
+  /** Missing for rides loaded from older garage entries. */
+  render?: RenderInfo;
+}
+
+export interface RefinementHistory {
+  steps: RefinementStep[];
+  index: number;
+}
+
+/** Whose name goes on the car. Validated before it reaches any prompt. */
+export interface CommanderProfile {
+  name: string;
+  callsign: string;
+  baseName: string;
+}
+
+/** What a finished (or abandoned) Drive Mode run reports back. */
+export interface DriveRunResult {
+  score: number;
+  zombiesDodged: number;
+  /** Metres. */
+  distance: number;
+}
+
+export interface SurvivorStats {
+  xp: number;
+  ridesBuilt: number;
+  /** Rides built per mode, for the favourite mode. */
+  modeCounts: Record<ModeId, number>;
+  bestDriveScore: number;
+  zombiesDodged: number;
+  /** Metres. */
+  distanceDriven: number;
+}
+
+/** The player behind the Survivor card. Persisted in localStorage. */
+export interface SurvivorProfile {
+  id: string;
+  commander: CommanderProfile;
+  /** Single letter or digit shown in the card's avatar tile. */
+  avatar: string;
+  stats: SurvivorStats;
+}
+
+/**
+ * Garage metadata. The image itself lives in a separate IndexedDB store (see
+ * `services/garageStore.ts`) so listing the garage never loads every blob.
+ */
+export interface ZombieRide {
+  id: string;
+  /** User-given; empty until the ride is named. */
+  name: string;
+  mode: ModeId;
+  /** The full prompt sent to the model. */
+  prompt: string;
+  customDetails: string;
+  /** Small JPEG data URL of the uploaded photo, if known. */
+  sourceThumbnail: string | null;
+  provider: string;
+  model: string;
+  /** ISO 8601. */
+  createdAt: string;
+  /** Set when this ride was refined from another saved ride. */
+  parentId: string | null;
+  /** Lower-case, user-defined. */
+  tags: string[];
+  favourite: boolean;
+  /** Highest Drive Mode score driving this ride; 0 until driven. */
+  bestDriveScore: number;
+  /** ISO 8601; set while the ride sits in the recently deleted bin. */
+  deletedAt: string | null;
+  /** Size of the stored image in bytes. */
+  imageBytes: number;
+  attributes: RideAttributes | null;
+  /** Worked out from the mode and attributes when the ride is loaded. */
+  stats: RideStats;
+}
@@ -1,18 +1,22 @@
 import path from 'path';
+import { readFileSync } from 'fs';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { zombieApiPlugin } from './api/_lib/devServer';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const pkg = JSON.parse(readFileSync(path.resolve(__dirname, 'package.json'), 'utf-8'));
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      // The Gemini key stays on the server: only /api reads it.
+      plugins: [react(), zombieApiPlugin(env)],
+      // Stamped into downloaded images' metadata.
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        __APP_VERSION__: JSON.stringify(pkg.version),
       },
       resolve: {
         alias: {